@@ -0,0 +1,163 @@
+/**
+ * Benchmark for the directory scanning layer.
+ *
+ * Builds a synthetic directory with 100k files (or --files N) under the
+ * system temp directory and compares the previous listing strategy, which
+ * stat'ed every entry at once with Promise.all, against the bounded
+ * concurrency scanner for the different sorts, cursor paging and metadata.
+ *
+ *   npm run benchmark -- --files 100000 [--dir /tmp/listing-benchmark] [--clean]
+ *
+ * The tree is reused between runs; pass --clean to delete it afterwards.
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { performance } from 'perf_hooks';
+import { DirectoryService } from '../src/services/directoryService';
+import { FileInfo, ListingSort, ListingSortKey } from '../src/types/directory';
+import { SCAN_CONCURRENCY, mapWithConcurrency } from '../src/utils/concurrency';
+import { logger } from '../src/utils/logger';
+
+interface BenchmarkResult {
+  scenario: string;
+  durationMs: number;
+  peakRssDeltaMb: number;
+  items: number;
+}
+
+const readOption = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const fileCount = parseInt(readOption('files') || '100000');
+const baseDir = path.resolve(readOption('dir') || path.join(os.tmpdir(), 'listing-benchmark'));
+const treeDir = path.join(baseDir, `flat-${fileCount}`);
+
+/**
+ * Creates the synthetic tree unless a complete one is already there
+ */
+const buildTree = async (): Promise<void> => {
+  await fs.promises.mkdir(treeDir, { recursive: true });
+  const existing = await fs.promises.readdir(treeDir);
+  if (existing.length >= fileCount) {
+    console.log(`Reusing ${existing.length} entries in ${treeDir}`);
+    return;
+  }
+
+  console.log(`Creating ${fileCount} files in ${treeDir}...`);
+  const started = performance.now();
+  const indexes = Array.from({ length: fileCount }, (_, index) => index);
+  await mapWithConcurrency(indexes, 64, async (index) => {
+    // Every 50th entry is a directory, sizes vary so size sorts do real work
+    const name = `entry-${index.toString().padStart(6, '0')}`;
+    if (index % 50 === 0) {
+      await fs.promises.mkdir(path.join(treeDir, name), { recursive: true });
+    } else {
+      await fs.promises.writeFile(path.join(treeDir, `${name}.txt`), 'x'.repeat(index % 512));
+    }
+  });
+  console.log(`Created tree in ${Math.round(performance.now() - started)} ms`);
+};
+
+/**
+ * The listing strategy before bounded scanning: one createFileInfo per entry,
+ * all started at once, then sort and slice the first page
+ */
+const legacyListing = async (dirPath: string, limit: number): Promise<FileInfo[]> => {
+  const fileNames = await fs.promises.readdir(dirPath);
+  const results = await Promise.all(fileNames.map(async (fileName) => {
+    try {
+      return await DirectoryService.createFileInfo(path.join(dirPath, fileName), fileName);
+    } catch {
+      return null;
+    }
+  }));
+
+  return results
+    .filter((item): item is FileInfo => item !== null)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .slice(0, limit);
+};
+
+/**
+ * Runs a scenario, sampling the resident set size while it runs
+ */
+const measure = async (scenario: string, run: () => Promise<number>): Promise<BenchmarkResult> => {
+  if (global.gc) {
+    global.gc();
+  }
+
+  const baseRss = process.memoryUsage().rss;
+  let peakRss = baseRss;
+  const sampler = setInterval(() => {
+    peakRss = Math.max(peakRss, process.memoryUsage().rss);
+  }, 20);
+
+  const started = performance.now();
+  try {
+    const items = await run();
+    return {
+      scenario,
+      durationMs: Math.round(performance.now() - started),
+      peakRssDeltaMb: Math.round(((Math.max(peakRss, process.memoryUsage().rss) - baseRss) / 1048576) * 10) / 10,
+      items,
+    };
+  } finally {
+    clearInterval(sampler);
+  }
+};
+
+const sortBy = (key: ListingSortKey, order: 'asc' | 'desc'): ListingSort => ({
+  ...DirectoryService.DEFAULT_SORT,
+  keys: [key],
+  orders: [order],
+});
+
+const main = async (): Promise<void> => {
+  logger.level = process.env.LOG_LEVEL || 'warn';
+
+  await buildTree();
+  console.log(`Scan concurrency: ${SCAN_CONCURRENCY}\n`);
+
+  const results: BenchmarkResult[] = [];
+  results.push(await measure('legacy Promise.all, name sort, page 1', async () =>
+    (await legacyListing(treeDir, 100)).length));
+  results.push(await measure('bounded, name sort, page 1', async () =>
+    (await DirectoryService.listDirectory(treeDir, 1, 100, false, sortBy('name', 'asc'))).items.length));
+  results.push(await measure('bounded, type sort, page 1', async () =>
+    (await DirectoryService.listDirectory(treeDir, 1, 100, false, sortBy('type', 'asc'))).items.length));
+  results.push(await measure('bounded, size sort, page 1', async () =>
+    (await DirectoryService.listDirectory(treeDir, 1, 100, false, sortBy('size', 'desc'))).items.length));
+
+  const firstPage = await DirectoryService.listDirectory(treeDir, 1, 100, false, sortBy('name', 'asc'));
+  const cursor = firstPage.pagination.nextCursor;
+  if (cursor) {
+    results.push(await measure('cursor, next page from snapshot', async () =>
+      (await DirectoryService.listFromCursor(cursor, 100)).items.length));
+  }
+
+  results.push(await measure('directory metadata', async () =>
+    (await DirectoryService.getDirectoryMetadata(treeDir)).totalItems));
+
+  console.table(results);
+
+  const [legacy, bounded] = results;
+  if (legacy && bounded && bounded.durationMs > 0) {
+    console.log(`\nName sort, page 1: ${(legacy.durationMs / bounded.durationMs).toFixed(1)}x faster, ` +
+      `peak RSS ${legacy.peakRssDeltaMb} MB -> ${bounded.peakRssDeltaMb} MB`);
+  }
+
+  if (process.argv.includes('--clean')) {
+    await fs.promises.rm(treeDir, { recursive: true, force: true });
+    console.log(`Removed ${treeDir}`);
+  }
+};
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Benchmark failed:', error);
+    process.exit(1);
+  });
@@ -1,11 +1,21 @@
 import { Component, OnInit, OnDestroy, ChangeDetectorRef, NgZone } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { Subject, takeUntil } from 'rxjs';
+import { Subject, Subscription, takeUntil } from 'rxjs';
 
+import { AuthService } from '../../services/auth.service';
 import { DirectoryService } from '../../services/directory.service';
 import { NotificationService } from '../../services/notification.service';
-import { DirectoryListingResponse, FileInfo, DirectoryListingParams } from '../../models/file-info.model';
+import {
+  DirectoryListingResponse,
+  FileInfo,
+  DirectoryListingParams,
+  DirectoryWatchEvent,
+  DiskUsageProgress,
+  DiskUsageResponse,
+  SortKey,
+  SortOptions
+} from '../../models/file-info.model';
 import { Breadcrumb } from '../breadcrumb/breadcrumb';
 import { FileList } from '../file-list/file-list';
 
@@ -22,6 +32,9 @@ import { FileList } from '../file-list/file-list';
 })
 export class DirectoryBrowser implements OnInit, OnDestroy {
   private destroy$ = new Subject<void>();
+  private watchSubscription: Subscription | null = null;
+  private watchKey: string = '';
+  private diskUsageSubscription: Subscription | null = null;
 
   // Data properties
   directoryData: DirectoryListingResponse | null = null;
@@ -29,20 +42,37 @@ export class DirectoryBrowser implements OnInit, OnDestroy {
   breadcrumbs: Array<{ name: string; path: string }> = [];
   loading: boolean = false;
   lastUpdate: string = '';
+  watching: boolean = false;
+
+  // Disk usage panel
+  diskUsage: DiskUsageResponse | null = null;
+  diskUsageProgress: DiskUsageProgress | null = null;
+  diskUsageRunning: boolean = false;
 
   // Filter and sort options
   currentPage: number = 1;
   itemsPerPage: number = 100;
   includeHidden: boolean = false;
-  sortBy: 'name' | 'size' | 'modified' | 'type' = 'name';
-  sortOrder: 'asc' | 'desc' = 'asc';
+  followSymlinks: boolean = false;
+  sort: SortOptions = {
+    sortBy: ['name'],
+    sortOrder: ['asc'],
+    natural: true,
+    caseSensitive: false,
+    directoriesFirst: true
+  };
 
   // UI state
   sidenavOpened: boolean = true;
   customPath: string = '';
 
+  // Credentials panel, shown on demand or when the API asks for credentials
+  showCredentials: boolean = false;
+  credentialsInput: string = '';
+
   constructor(
     public directoryService: DirectoryService,
+    public authService: AuthService,
     private notificationService: NotificationService,
     private cdr: ChangeDetectorRef,
     private ngZone: NgZone
@@ -58,6 +88,8 @@ export class DirectoryBrowser implements OnInit, OnDestroy {
   }
 
   ngOnDestroy(): void {
+    this.stopWatching();
+    this.closeDiskUsage();
     this.destroy$.next();
     this.destroy$.complete();
   }
@@ -86,6 +118,13 @@ export class DirectoryBrowser implements OnInit, OnDestroy {
         this.customPath = path;
         this.updateBreadcrumbs();
       });
+
+    // Open the credentials panel when a request is rejected with 401
+    this.authService.credentialsRequired$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(required => {
+        if (required) this.showCredentials = true;
+      });
   }
 
   private updateBreadcrumbs(): void {
@@ -101,8 +140,8 @@ export class DirectoryBrowser implements OnInit, OnDestroy {
       page: this.currentPage,
       limit: this.itemsPerPage,
       includeHidden: this.includeHidden,
-      sortBy: this.sortBy,
-      sortOrder: this.sortOrder,
+      followSymlinks: this.followSymlinks,
+      ...this.sort,
       ...params
     };
 
@@ -124,6 +163,7 @@ export class DirectoryBrowser implements OnInit, OnDestroy {
             this.directoryData = data;
             this.loading = false;
             this.lastUpdate = new Date().toLocaleTimeString();
+            this.startWatching(data.path);
             console.log('Component directoryData updated:', this.directoryData);
             console.log('NgZone is stable after update:', this.ngZone.isStable);
             // Force change detection to update UI
@@ -132,6 +172,11 @@ export class DirectoryBrowser implements OnInit, OnDestroy {
         },
         error: (error) => {
           console.error('Directory loading error:', error);
+          if (requestParams.cursor) {
+            // The snapshot behind the cursor has expired, fall back to a fresh listing
+            this.loadDirectory();
+            return;
+          }
           this.ngZone.run(() => {
             this.loading = false;
             this.cdr.detectChanges();
@@ -144,12 +189,29 @@ export class DirectoryBrowser implements OnInit, OnDestroy {
   onItemSelected(item: FileInfo): void {
     if (item.type === 'directory') {
       this.navigateToPath(item.path);
+    } else if (item.type === 'symlink') {
+      this.onLinkFollowed(item);
+    } else if (this.directoryService.isBrowsableArchive(item)) {
+      // Archives are listed as virtual directories via the `archive!/inner/path` syntax
+      this.navigateToPath(`${item.path}!/`);
     } else {
       this.showInfo(`Selected file: ${item.name} (${this.directoryService.formatFileSize(item.size)})`);
     }
   }
 
+  onLinkFollowed(item: FileInfo): void {
+    if (!item.linkTarget || item.isBrokenLink) {
+      this.showError(`Broken link: ${item.name} points to ${item.linkTarget ?? 'nothing'}`);
+    } else if (item.targetType === 'directory') {
+      this.navigateToPath(item.linkTarget);
+    } else {
+      // Jump to the folder that contains the target file
+      this.navigateToPath(this.directoryService.getParentPath(item.linkTarget));
+    }
+  }
+
   navigateToPath(path: string): void {
+    this.closeDiskUsage();
     this.currentPath = path;
     this.currentPage = 1; // Reset to first page when changing directories
     this.loadDirectory();
@@ -177,6 +239,7 @@ export class DirectoryBrowser implements OnInit, OnDestroy {
             this.currentPage = 1;
             this.loading = false;
             this.lastUpdate = new Date().toLocaleTimeString();
+            this.startWatching(data.path);
             console.log('Navigate up - directoryData updated:', this.directoryData);
             console.log('NgZone is stable after update:', this.ngZone.isStable);
             // Force change detection to update UI
@@ -194,16 +257,36 @@ export class DirectoryBrowser implements OnInit, OnDestroy {
       });
   }
 
-  onSortChanged(sort: { sortBy: string; sortOrder: string }): void {
-    this.sortBy = sort.sortBy as any;
-    this.sortOrder = sort.sortOrder as any;
+  /**
+   * The first sort key, as chosen in the toolbar; picking one replaces any
+   * further keys set from the column headers
+   */
+  get primarySortKey(): SortKey {
+    return this.sort.sortBy[0] ?? 'name';
+  }
+
+  set primarySortKey(key: SortKey) {
+    this.sort = { ...this.sort, sortBy: [key], sortOrder: [this.sort.sortOrder[0] ?? 'asc'] };
+  }
+
+  onSortChanged(sort: SortOptions): void {
+    this.sort = sort;
     this.currentPage = 1; // Reset to first page when changing sort
     this.loadDirectory();
   }
 
   onPageChanged(page: number): void {
+    const pagination = this.directoryData?.pagination;
     this.currentPage = page;
-    this.loadDirectory();
+
+    // Adjacent pages come from the same snapshot, so entries don't shift while paging
+    if (pagination && page === pagination.page + 1 && pagination.nextCursor) {
+      this.loadDirectory({ cursor: pagination.nextCursor });
+    } else if (pagination && page === pagination.page - 1 && pagination.prevCursor) {
+      this.loadDirectory({ cursor: pagination.prevCursor });
+    } else {
+      this.loadDirectory();
+    }
   }
 
   onLimitChanged(limit: number): void {
@@ -227,6 +310,228 @@ export class DirectoryBrowser implements OnInit, OnDestroy {
     this.loadDirectory();
   }
 
+  /**
+   * Stores the entered API key or JWT and reloads the directory with it
+   */
+  onCredentialsSubmit(): void {
+    if (!this.credentialsInput.trim()) return;
+
+    this.authService.setToken(this.credentialsInput);
+    this.credentialsInput = '';
+    this.showCredentials = false;
+    this.stopWatching();
+    this.loadDirectory();
+  }
+
+  onSignOut(): void {
+    this.authService.clearToken();
+    this.stopWatching();
+    this.showCredentials = true;
+  }
+
+  /**
+   * Subscribes to change events for the open directory, replacing the watch
+   * of the previous one. Archive listings cannot be watched.
+   */
+  private startWatching(path: string): void {
+    const key = JSON.stringify([path, this.includeHidden, this.followSymlinks]);
+    if (key === this.watchKey) return;
+
+    this.stopWatching();
+    if (this.directoryService.isArchivePath(path)) return;
+
+    this.watchKey = key;
+    let connections = 0;
+    this.watchSubscription = this.directoryService.watchDirectory({
+      path,
+      includeHidden: this.includeHidden,
+      followSymlinks: this.followSymlinks
+    }).subscribe({
+      next: (event) => {
+        this.ngZone.run(() => {
+          if (event.type === 'ready') {
+            this.watching = true;
+            // Changes made while reconnecting were missed, so reload once
+            if (++connections > 1) this.loadDirectory();
+          } else {
+            this.applyWatchEvent(event);
+          }
+          this.cdr.detectChanges();
+        });
+      },
+      error: (error) => {
+        console.error('Directory watch error:', error);
+        this.ngZone.run(() => {
+          this.watching = false;
+          this.watchKey = '';
+          this.cdr.detectChanges();
+        });
+        this.showError(`Stopped watching directory: ${error.message}`);
+      }
+    });
+  }
+
+  private stopWatching(): void {
+    this.watchSubscription?.unsubscribe();
+    this.watchSubscription = null;
+    this.watchKey = '';
+    this.watching = false;
+  }
+
+  /**
+   * Patches the loaded page and totals with a change event instead of
+   * reloading the listing. Entries that sort outside the current page only
+   * update the totals.
+   */
+  private applyWatchEvent(event: Exclude<DirectoryWatchEvent, { type: 'ready' }>): void {
+    const data = this.directoryData;
+    if (!data) return;
+
+    const items = [...data.items];
+    const metadata = { ...data.metadata };
+    const pagination = { ...data.pagination };
+    const index = items.findIndex(item => item.name === event.name);
+
+    const count = (entry: FileInfo, sign: 1 | -1) => {
+      if (entry.type === 'file') {
+        metadata.totalFiles += sign;
+        metadata.totalSize += sign * entry.size;
+      } else if (entry.type === 'directory') {
+        metadata.totalDirectories += sign;
+      }
+    };
+
+    if (event.type === 'delete') {
+      const removed = index === -1 ? event.entry : items.splice(index, 1)[0];
+      if (removed) count(removed, -1);
+      pagination.total = Math.max(0, pagination.total - 1);
+    } else if (event.type === 'change' && index !== -1) {
+      count(items[index], -1);
+      count(event.entry, 1);
+      items[index] = event.entry;
+      items.sort(this.createItemComparator());
+    } else if (event.type === 'add' && index === -1) {
+      count(event.entry, 1);
+      pagination.total++;
+
+      const compareItems = this.createItemComparator();
+      const position = items.findIndex(item => compareItems(event.entry, item) < 0);
+      if (position !== -1) {
+        items.splice(position, 0, event.entry);
+      } else if (!pagination.hasNext) {
+        items.push(event.entry);
+      }
+      if (items.length > pagination.limit) items.pop();
+    }
+
+    pagination.totalPages = Math.ceil(pagination.total / pagination.limit);
+    pagination.hasNext = pagination.page < pagination.totalPages;
+
+    this.directoryData = { ...data, items, metadata, pagination };
+    this.lastUpdate = new Date().toLocaleTimeString();
+  }
+
+  /**
+   * Returns a comparison function that orders entries the way the server
+   * sorts the listing
+   */
+  private createItemComparator(): (a: FileInfo, b: FileInfo) => number {
+    const { sortBy, sortOrder, natural, caseSensitive, directoriesFirst } = this.sort;
+    const collator = new Intl.Collator(undefined, {
+      numeric: natural,
+      sensitivity: caseSensitive ? 'variant' : 'accent',
+      caseFirst: caseSensitive ? 'upper' : 'false'
+    });
+
+    const compareKey = (key: SortKey, a: FileInfo, b: FileInfo): number => {
+      switch (key) {
+        case 'name':
+          return collator.compare(a.name, b.name);
+        case 'size':
+          return a.size - b.size;
+        case 'modified':
+          return new Date(a.modifiedDate).getTime() - new Date(b.modifiedDate).getTime();
+        case 'created':
+          return new Date(a.createdDate).getTime() - new Date(b.createdDate).getTime();
+        case 'type':
+          return a.type.localeCompare(b.type);
+        case 'extension':
+          return collator.compare(a.extension, b.extension);
+        case 'owner':
+          return collator.compare(a.permissions.owner ?? '', b.permissions.owner ?? '');
+      }
+    };
+
+    return (a, b) => {
+      if (directoriesFirst && (a.type === 'directory') !== (b.type === 'directory')) {
+        return a.type === 'directory' ? -1 : 1;
+      }
+
+      for (let i = 0; i < sortBy.length; i++) {
+        const comparison = compareKey(sortBy[i], a, b);
+        if (comparison !== 0) {
+          return (sortOrder[i] ?? sortOrder[0]) === 'desc' ? -comparison : comparison;
+        }
+      }
+
+      return collator.compare(a.name, b.name);
+    };
+  }
+
+  /**
+   * Computes the recursive disk usage of the open directory, showing the
+   * server's progress while it scans
+   */
+  computeDiskUsage(): void {
+    this.closeDiskUsage();
+    this.diskUsageRunning = true;
+
+    this.diskUsageSubscription = this.directoryService.getDiskUsage({
+      path: this.currentPath,
+      includeHidden: true,
+      top: 10
+    }).subscribe({
+      next: (record) => {
+        this.ngZone.run(() => {
+          if (record.type === 'progress') {
+            this.diskUsageProgress = record.progress;
+          } else if (record.type === 'result') {
+            this.diskUsage = record.usage;
+            this.diskUsageProgress = null;
+            this.diskUsageRunning = false;
+            if (record.usage.metadata.timedOut) {
+              this.showInfo('Disk usage scan timed out, totals are partial');
+            }
+          } else {
+            this.diskUsageRunning = false;
+            this.showError(`Disk usage failed: ${record.message}`);
+          }
+          this.cdr.detectChanges();
+        });
+      },
+      error: (error) => {
+        console.error('Disk usage error:', error);
+        this.ngZone.run(() => {
+          this.diskUsageRunning = false;
+          this.diskUsageProgress = null;
+          this.cdr.detectChanges();
+        });
+        this.showError(`Disk usage failed: ${error.message}`);
+      }
+    });
+  }
+
+  /**
+   * Hides the disk usage panel, cancelling a scan that is still running
+   */
+  closeDiskUsage(): void {
+    this.diskUsageSubscription?.unsubscribe();
+    this.diskUsageSubscription = null;
+    this.diskUsage = null;
+    this.diskUsageProgress = null;
+    this.diskUsageRunning = false;
+  }
+
   toggleSidenav(): void {
     this.sidenavOpened = !this.sidenavOpened;
   }
@@ -1,6 +1,12 @@
 import { Component, Input, Output, EventEmitter, OnChanges, SimpleChanges, ChangeDetectorRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { FileInfo, DirectoryListingResponse } from '../../models/file-info.model';
+import {
+  FileInfo,
+  DirectoryListingResponse,
+  FilePreviewResponse,
+  SortKey,
+  SortOptions
+} from '../../models/file-info.model';
 import { DirectoryService } from '../../services/directory.service';
 import moment from 'moment';
 
@@ -15,14 +21,29 @@ import moment from 'moment';
 export class FileList implements OnChanges {
   @Input() directoryData: DirectoryListingResponse | null = null;
   @Input() loading: boolean = false;
+  @Input() sort: SortOptions = {
+    sortBy: ['name'],
+    sortOrder: ['asc'],
+    natural: true,
+    caseSensitive: false,
+    directoriesFirst: true
+  };
   @Output() itemSelected = new EventEmitter<FileInfo>();
-  @Output() sortChanged = new EventEmitter<{sortBy: string, sortOrder: string}>();
+  @Output() linkFollowed = new EventEmitter<FileInfo>();
+  @Output() sortChanged = new EventEmitter<SortOptions>();
   @Output() limitChanged = new EventEmitter<number>();
   @Output() pageChanged = new EventEmitter<number>();
 
-  currentSort = { column: 'name', direction: 'asc' };
+  readonly maxSortKeys = 4;
   pageSizeOptions = [25, 50, 100, 200, 500];
 
+  // File preview state
+  preview: FilePreviewResponse | null = null;
+  previewPath: string | null = null;
+  previewLoading: boolean = false;
+  previewError: string = '';
+  previewTailLines = 100;
+
   constructor(public directoryService: DirectoryService, private cdr: ChangeDetectorRef) {}
 
   ngOnChanges(changes: SimpleChanges): void {
@@ -45,14 +66,86 @@ export class FileList implements OnChanges {
     this.itemSelected.emit(item);
   }
 
-  onSortChange(sortBy: string): void {
-    if (this.currentSort.column === sortBy) {
-      this.currentSort.direction = this.currentSort.direction === 'asc' ? 'desc' : 'asc';
+  onFollowLink(item: FileInfo): void {
+    this.linkFollowed.emit(item);
+  }
+
+  /**
+   * Sorts by a column header. A plain click sorts by that column alone (or
+   * flips its direction); shift-click adds it as a further sort key.
+   */
+  onSortChange(column: SortKey, event: MouseEvent): void {
+    let sortBy = [...this.sort.sortBy];
+    let sortOrder = sortBy.map((_, i) => this.sort.sortOrder[i] ?? this.sort.sortOrder[0] ?? 'asc');
+    const index = sortBy.indexOf(column);
+
+    if (event.shiftKey && index !== -1) {
+      sortOrder[index] = sortOrder[index] === 'asc' ? 'desc' : 'asc';
+    } else if (event.shiftKey && sortBy.length < this.maxSortKeys) {
+      sortBy.push(column);
+      sortOrder.push('asc');
+    } else if (index === 0 && sortBy.length === 1) {
+      sortOrder = [sortOrder[0] === 'asc' ? 'desc' : 'asc'];
     } else {
-      this.currentSort.column = sortBy;
-      this.currentSort.direction = 'asc';
+      sortBy = [column];
+      sortOrder = ['asc'];
     }
-    this.sortChanged.emit({ sortBy, sortOrder: this.currentSort.direction });
+
+    this.sortChanged.emit({ ...this.sort, sortBy, sortOrder });
+  }
+
+  toggleSortOption(option: 'natural' | 'caseSensitive' | 'directoriesFirst'): void {
+    this.sortChanged.emit({ ...this.sort, [option]: !this.sort[option] });
+  }
+
+  getSortIcon(column: SortKey): string {
+    const index = this.sort.sortBy.indexOf(column);
+    if (index === -1) return 'bi-chevron-expand';
+    const order = this.sort.sortOrder[index] ?? this.sort.sortOrder[0];
+    return order === 'desc' ? 'bi-chevron-down' : 'bi-chevron-up';
+  }
+
+  /**
+   * Position of a column among several sort keys, shown next to its arrow
+   */
+  getSortRank(column: SortKey): number | null {
+    const index = this.sort.sortBy.indexOf(column);
+    return this.sort.sortBy.length > 1 && index !== -1 ? index + 1 : null;
+  }
+
+  onPreview(item: FileInfo, tail: boolean = false): void {
+    this.previewPath = item.path;
+    this.previewLoading = true;
+    this.previewError = '';
+
+    const params = tail
+      ? { path: item.path, tail: this.previewTailLines }
+      : { path: item.path, startLine: 1, endLine: this.previewTailLines };
+
+    this.directoryService.getFilePreview(params).subscribe({
+      next: (preview) => {
+        this.preview = preview;
+        this.previewLoading = false;
+        this.cdr.detectChanges();
+      },
+      error: (error) => {
+        this.preview = null;
+        this.previewError = error.message;
+        this.previewLoading = false;
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  closePreview(): void {
+    this.preview = null;
+    this.previewPath = null;
+    this.previewError = '';
+  }
+
+  getPreviewLineNumber(index: number): string {
+    if (this.preview?.startLine == null) return '';
+    return (this.preview.startLine + index).toString();
   }
 
   onPageChange(page: number): void {
@@ -87,10 +180,27 @@ export class FileList implements OnChanges {
     return item.type === 'directory';
   }
 
+  isSymlink(item: FileInfo): boolean {
+    return item.type === 'symlink';
+  }
+
+  getTypeLabel(item: FileInfo): string {
+    if (this.isDirectory(item)) return 'Folder';
+    if (this.isSymlink(item)) return item.isBrokenLink ? 'Broken link' : 'Link';
+    return item.extension || 'File';
+  }
+
+  getTypeBadgeClass(item: FileInfo): string {
+    if (this.isDirectory(item)) return 'bg-warning text-dark';
+    if (this.isSymlink(item)) return item.isBrokenLink ? 'bg-danger' : 'bg-info text-dark';
+    return 'bg-secondary';
+  }
+
   getRowClass(item: FileInfo): string {
     let classes = '';
     if (item.isHidden) classes += 'hidden-file ';
     if (this.isDirectory(item)) classes += 'directory-row ';
+    if (this.isSymlink(item)) classes += 'symlink-row ';
     return classes.trim();
   }
 
@@ -4,7 +4,10 @@ export interface FilePermissions {
   executable: boolean;
   owner?: string;
   group?: string;
+  uid?: number | null;
+  gid?: number | null;
   mode?: string;
+  symbolicMode?: string;
 }
 
 export interface FileInfo {
@@ -12,11 +15,14 @@ export interface FileInfo {
   path: string;
   size: number;
   extension: string;
-  type: 'file' | 'directory';
+  type: 'file' | 'directory' | 'symlink';
   createdDate: string;
   modifiedDate: string;
   permissions: FilePermissions;
   isHidden: boolean;
+  linkTarget?: string;
+  targetType?: 'file' | 'directory' | 'other';
+  isBrokenLink?: boolean;
 }
 
 export interface Pagination {
@@ -26,6 +32,8 @@ export interface Pagination {
   totalPages: number;
   hasNext: boolean;
   hasPrevious: boolean;
+  nextCursor?: string | null;
+  prevCursor?: string | null;
 }
 
 export interface DirectoryMetadata {
@@ -42,6 +50,17 @@ export interface DirectoryListingResponse {
   metadata: DirectoryMetadata;
 }
 
+export type DirectoryStreamRecord =
+  | { type: 'entry'; entry: FileInfo }
+  | { type: 'summary'; path: string; total: number; metadata: DirectoryMetadata }
+  | { type: 'error'; message: string };
+
+// Server-Sent Events from /watch; deleted entries carry their last known info, if any
+export type DirectoryWatchEvent =
+  | { type: 'ready'; path: string }
+  | { type: 'add' | 'change'; path: string; name: string; entry: FileInfo }
+  | { type: 'delete'; path: string; name: string; entry: FileInfo | null };
+
 export interface ApiResponse<T> {
   success: boolean;
   data: T;
@@ -63,16 +82,110 @@ export interface DirectoryMetadataResponse {
   created: string;
 }
 
+export type SortKey = 'name' | 'size' | 'modified' | 'created' | 'type' | 'extension' | 'owner';
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Listing order: keys are compared in turn, each with the order at the same
+ * position
+ */
 export interface SortOptions {
-  sortBy: 'name' | 'size' | 'modified' | 'type';
-  sortOrder: 'asc' | 'desc';
+  sortBy: SortKey[];
+  sortOrder: SortOrder[];
+  natural: boolean;
+  caseSensitive: boolean;
+  directoriesFirst: boolean;
 }
 
-export interface DirectoryListingParams {
+export interface DirectoryListingParams extends Partial<SortOptions> {
   path: string;
   page?: number;
   limit?: number;
   includeHidden?: boolean;
-  sortBy?: 'name' | 'size' | 'modified' | 'type';
-  sortOrder?: 'asc' | 'desc';
-}
\ No newline at end of file
+  followSymlinks?: boolean;
+  cursor?: string;
+}
+
+export interface DiskUsageTotals {
+  apparentSize: number;
+  allocatedSize: number;
+  blocks: number;
+  files: number;
+  directories: number;
+  symlinks: number;
+}
+
+export interface DiskUsageDirectory extends DiskUsageTotals {
+  name: string;
+  path: string;
+}
+
+export interface DiskUsageFile {
+  name: string;
+  path: string;
+  apparentSize: number;
+  allocatedSize: number;
+  modifiedDate: string;
+}
+
+export interface DiskUsageProgress {
+  percent: number;
+  files: number;
+  directories: number;
+  apparentSize: number;
+  currentPath: string;
+  elapsedMs: number;
+}
+
+export interface DiskUsageResponse {
+  path: string;
+  totals: DiskUsageTotals;
+  largestDirectories: DiskUsageDirectory[];
+  largestFiles: DiskUsageFile[];
+  limits: {
+    maxDepth: number | null;
+    timeoutMs: number;
+    top: number;
+  };
+  metadata: {
+    timedOut: boolean;
+    depthLimited: boolean;
+    inaccessible: number;
+    durationMs: number;
+    scannedAt: string;
+  };
+}
+
+export type DiskUsageStreamRecord =
+  | { type: 'progress'; progress: DiskUsageProgress }
+  | { type: 'result'; usage: DiskUsageResponse }
+  | { type: 'error'; message: string };
+
+export interface DiskUsageParams {
+  path: string;
+  maxDepth?: number;
+  timeoutMs?: number;
+  top?: number;
+  includeHidden?: boolean;
+}
+
+export interface FilePreviewResponse {
+  file: FileInfo;
+  encoding: 'utf-8' | 'utf-16le' | 'utf-16be' | 'latin1' | null;
+  hasBom: boolean;
+  binary: boolean;
+  mode: 'lines' | 'tail';
+  startLine: number | null;
+  endLine: number | null;
+  lines: string[];
+  hasMore: boolean;
+  truncated: boolean;
+}
+
+export interface FilePreviewParams {
+  path: string;
+  startLine?: number;
+  endLine?: number;
+  tail?: number;
+  maxBytes?: number;
+}
@@ -0,0 +1,42 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthService {
+  private readonly storageKey = 'directoryListing.accessToken';
+
+  // Set when the API has rejected a request for missing or invalid credentials
+  private credentialsRequiredSubject = new BehaviorSubject<boolean>(false);
+  public credentialsRequired$ = this.credentialsRequiredSubject.asObservable();
+
+  /**
+   * Get the stored API key or JWT, if any
+   */
+  getToken(): string | null {
+    return sessionStorage.getItem(this.storageKey);
+  }
+
+  /**
+   * Store an API key or JWT for the rest of the browser session
+   */
+  setToken(token: string): void {
+    sessionStorage.setItem(this.storageKey, token.trim());
+    this.credentialsRequiredSubject.next(false);
+  }
+
+  /**
+   * Forget the stored credentials
+   */
+  clearToken(): void {
+    sessionStorage.removeItem(this.storageKey);
+  }
+
+  /**
+   * Ask the user for credentials, e.g. after a 401 response
+   */
+  requireCredentials(): void {
+    this.credentialsRequiredSubject.next(true);
+  }
+}
@@ -1,13 +1,21 @@
 import { Injectable } from '@angular/core';
-import { HttpClient, HttpParams, HttpErrorResponse } from '@angular/common/http';
-import { Observable, throwError, BehaviorSubject } from 'rxjs';
-import { catchError, map } from 'rxjs/operators';
+import { HttpClient, HttpParams, HttpErrorResponse, HttpEventType } from '@angular/common/http';
+import { Observable, throwError, BehaviorSubject, defer } from 'rxjs';
+import { catchError, map, mergeMap } from 'rxjs/operators';
 import { 
   DirectoryListingResponse, 
   DirectoryMetadataResponse, 
   ApiResponse,
-  DirectoryListingParams 
+  DirectoryListingParams,
+  FilePreviewResponse,
+  FilePreviewParams,
+  DirectoryStreamRecord,
+  DirectoryWatchEvent,
+  DiskUsageParams,
+  DiskUsageStreamRecord,
+  FileInfo
 } from '../models/file-info.model';
+import { AuthService } from './auth.service';
 
 @Injectable({
   providedIn: 'root'
@@ -23,7 +31,7 @@ export class DirectoryService {
   private loadingSubject = new BehaviorSubject<boolean>(false);
   public loading$ = this.loadingSubject.asObservable();
 
-  constructor(private http: HttpClient) { }
+  constructor(private http: HttpClient, private authService: AuthService) { }
 
   /**
    * Get directory listing with pagination and sorting
@@ -36,8 +44,26 @@ export class DirectoryService {
       .set('page', (params.page || 1).toString())
       .set('limit', (params.limit || 100).toString())
       .set('includeHidden', (params.includeHidden || false).toString())
-      .set('sortBy', params.sortBy || 'name')
-      .set('sortOrder', params.sortOrder || 'asc');
+      .set('sortBy', (params.sortBy ?? ['name']).join(','))
+      .set('sortOrder', (params.sortOrder ?? ['asc']).join(','));
+
+    if (params.natural === false) {
+      httpParams = httpParams.set('natural', 'false');
+    }
+    if (params.caseSensitive) {
+      httpParams = httpParams.set('caseSensitive', 'true');
+    }
+    if (params.directoriesFirst) {
+      httpParams = httpParams.set('directoriesFirst', 'true');
+    }
+
+    if (params.followSymlinks) {
+      httpParams = httpParams.set('followSymlinks', 'true');
+    }
+    if (params.cursor) {
+      // Page through the server-side snapshot of the listing
+      httpParams = httpParams.set('cursor', params.cursor);
+    }
 
     return this.http.get<ApiResponse<DirectoryListingResponse>>(`${this.apiUrl}/list`, { params: httpParams })
       .pipe(
@@ -50,6 +76,129 @@ export class DirectoryService {
       );
   }
 
+  /**
+   * Stream a directory listing as NDJSON, emitting each record as soon as its
+   * line has arrived. Entries come in directory order, unsorted and unpaginated,
+   * followed by a summary record with the totals.
+   */
+  streamDirectoryListing(params: Pick<DirectoryListingParams, 'path' | 'includeHidden' | 'followSymlinks'>): Observable<DirectoryStreamRecord> {
+    let httpParams = new HttpParams()
+      .set('path', params.path)
+      .set('includeHidden', (params.includeHidden || false).toString())
+      .set('stream', 'true');
+
+    if (params.followSymlinks) {
+      httpParams = httpParams.set('followSymlinks', 'true');
+    }
+
+    return this.streamNdjson<DirectoryStreamRecord>(`${this.apiUrl}/list`, httpParams);
+  }
+
+  /**
+   * Compute the recursive disk usage of a directory, emitting progress records
+   * while the server scans and a final result record. Unsubscribing cancels
+   * the request, which stops the scan on the server.
+   */
+  getDiskUsage(params: DiskUsageParams): Observable<DiskUsageStreamRecord> {
+    let httpParams = new HttpParams()
+      .set('path', params.path)
+      .set('includeHidden', (params.includeHidden ?? true).toString())
+      .set('stream', 'true');
+
+    if (params.maxDepth !== undefined) {
+      httpParams = httpParams.set('maxDepth', params.maxDepth.toString());
+    }
+    if (params.timeoutMs !== undefined) {
+      httpParams = httpParams.set('timeoutMs', params.timeoutMs.toString());
+    }
+    if (params.top !== undefined) {
+      httpParams = httpParams.set('top', params.top.toString());
+    }
+
+    return this.streamNdjson<DiskUsageStreamRecord>(`${this.apiUrl}/usage`, httpParams);
+  }
+
+  /**
+   * GET an NDJSON endpoint, emitting each record as soon as its line has arrived
+   */
+  private streamNdjson<T>(url: string, params: HttpParams): Observable<T> {
+    // Each subscription tracks how much of the response it has already parsed
+    return defer(() => {
+      let consumed = 0;
+      const takeCompleteLines = (text: string, final: boolean): T[] => {
+        const end = final ? text.length : text.lastIndexOf('\n') + 1;
+        if (end <= consumed) return [];
+
+        const lines = text.slice(consumed, end).split('\n').filter(line => line.trim() !== '');
+        consumed = end;
+        return lines.map(line => JSON.parse(line) as T);
+      };
+
+      return this.http.get(url, {
+        params,
+        headers: { Accept: 'application/x-ndjson' },
+        observe: 'events',
+        reportProgress: true,
+        responseType: 'text'
+      }).pipe(
+        mergeMap(event => {
+          if (event.type === HttpEventType.DownloadProgress) {
+            return takeCompleteLines(event.partialText ?? '', false);
+          }
+          if (event.type === HttpEventType.Response) {
+            return takeCompleteLines(event.body ?? '', true);
+          }
+          return [];
+        })
+      );
+    }).pipe(
+      catchError(this.handleError.bind(this))
+    );
+  }
+
+  /**
+   * Watch a directory for changes over Server-Sent Events. Emits a `ready`
+   * event each time the connection is (re)established, then add, change and
+   * delete events. Errors when the server ends the watch (e.g. the directory
+   * was removed) or the connection is lost for good.
+   */
+  watchDirectory(params: Pick<DirectoryListingParams, 'path' | 'includeHidden' | 'followSymlinks'>): Observable<DirectoryWatchEvent> {
+    let httpParams = new HttpParams()
+      .set('path', params.path)
+      .set('includeHidden', (params.includeHidden || false).toString());
+
+    if (params.followSymlinks) {
+      httpParams = httpParams.set('followSymlinks', 'true');
+    }
+
+    // EventSource cannot send headers, so the token goes in the query string
+    const token = this.authService.getToken();
+    if (token) {
+      httpParams = httpParams.set('access_token', token);
+    }
+
+    return new Observable<DirectoryWatchEvent>(subscriber => {
+      const source = new EventSource(`${this.apiUrl}/watch?${httpParams.toString()}`);
+      const forward = (event: Event) => {
+        subscriber.next(JSON.parse((event as MessageEvent<string>).data) as DirectoryWatchEvent);
+      };
+
+      for (const type of ['ready', 'add', 'change', 'delete']) {
+        source.addEventListener(type, forward);
+      }
+      source.addEventListener('error', event => {
+        if (event instanceof MessageEvent) {
+          subscriber.error(new Error(JSON.parse(event.data).message));
+        } else if (source.readyState === EventSource.CLOSED) {
+          subscriber.error(new Error('Lost connection to the directory watch'));
+        }
+        // Otherwise the browser reconnects on its own
+      });
+
+      return () => source.close();
+    });
+  }
+
   /**
    * Get directory metadata
    */
@@ -63,6 +212,31 @@ export class DirectoryService {
       );
   }
 
+  /**
+   * Get a window of lines (or the tail) of a text file along with its file info
+   */
+  getFilePreview(params: FilePreviewParams): Observable<FilePreviewResponse> {
+    let httpParams = new HttpParams().set('path', params.path);
+
+    if (params.tail !== undefined) {
+      httpParams = httpParams.set('tail', params.tail.toString());
+    } else {
+      httpParams = httpParams.set('startLine', (params.startLine || 1).toString());
+      if (params.endLine !== undefined) {
+        httpParams = httpParams.set('endLine', params.endLine.toString());
+      }
+    }
+    if (params.maxBytes !== undefined) {
+      httpParams = httpParams.set('maxBytes', params.maxBytes.toString());
+    }
+
+    return this.http.get<ApiResponse<FilePreviewResponse>>(`${this.apiUrl}/preview`, { params: httpParams })
+      .pipe(
+        map(response => response.data),
+        catchError(this.handleError.bind(this))
+      );
+  }
+
   /**
    * Get API information
    */
@@ -92,7 +266,7 @@ export class DirectoryService {
   /**
    * Get parent directory path
    */
-  private getParentPath(path: string): string {
+  getParentPath(path: string): string {
     if (path === '/' || path === '') return '/';
     
     // Handle Windows paths
@@ -189,6 +363,10 @@ export class DirectoryService {
     if (fileInfo.type === 'directory') {
       return 'bi-folder-fill';
     }
+
+    if (fileInfo.type === 'symlink') {
+      return fileInfo.isBrokenLink ? 'bi-link-45deg text-danger' : 'bi-link-45deg';
+    }
     
     const extension = fileInfo.extension?.toLowerCase();
     
@@ -200,7 +378,7 @@ export class DirectoryService {
       case '.jpg': case '.jpeg': case '.png': case '.gif': case '.bmp': case '.svg': return 'bi-file-earmark-image';
       case '.mp4': case '.avi': case '.mkv': case '.mov': case '.webm': return 'bi-file-earmark-play';
       case '.mp3': case '.wav': case '.flac': case '.ogg': return 'bi-file-earmark-music';
-      case '.zip': case '.rar': case '.7z': case '.tar': case '.gz': return 'bi-file-earmark-zip';
+      case '.zip': case '.rar': case '.7z': case '.tar': case '.gz': case '.tgz': return 'bi-file-earmark-zip';
       case '.js': case '.ts': case '.html': case '.css': case '.json': case '.xml': case '.yaml': case '.yml': return 'bi-file-earmark-code';
       case '.txt': case '.log': case '.md': case '.readme': return 'bi-file-earmark-text';
       case '.exe': case '.msi': case '.deb': case '.rpm': return 'bi-file-earmark-binary';
@@ -210,6 +388,20 @@ export class DirectoryService {
     }
   }
 
+  /**
+   * Check whether a file is an archive the API can browse as a directory
+   */
+  isBrowsableArchive(fileInfo: FileInfo): boolean {
+    return fileInfo.type === 'file' && /\.(zip|tar|tar\.gz|tgz)$/i.test(fileInfo.name);
+  }
+
+  /**
+   * Check if a path points inside an archive (`archive.zip!/inner/path`)
+   */
+  isArchivePath(path: string): boolean {
+    return /\.(zip|tar|tar\.gz|tgz)!/i.test(path);
+  }
+
   /**
    * Handle HTTP errors
    */
@@ -0,0 +1,51 @@
+import fs from 'fs';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+
+// Roots and limits are read when the controllers load, so they are set up first
+const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'usage-controller-')));
+
+process.env.ALLOWED_ROOTS = base;
+process.env.DISK_USAGE_TIMEOUT_MS = '5000';
+
+describe('getDiskUsage', () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    await fs.promises.writeFile(path.join(base, 'a.txt'), 'alpha');
+
+    const { getDiskUsage, validateDiskUsage } = await import('../directoryController');
+    const { errorHandler } = await import('../../middleware/errorHandler');
+    const app = express();
+    app.get('/usage', validateDiskUsage, getDiskUsage);
+    app.use(errorHandler);
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/usage?path=${encodeURIComponent(base)}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.promises.rm(base, { recursive: true, force: true });
+  });
+
+  it('accepts timeouts up to DISK_USAGE_TIMEOUT_MS', async () => {
+    const response = await fetch(`${url}&timeoutMs=5000`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ data: { totals: { files: 1 } } });
+  });
+
+  it('rejects longer timeouts instead of shortening them', async () => {
+    const response = await fetch(`${url}&timeoutMs=600000`);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: 'Validation failed',
+      details: [expect.objectContaining({ msg: 'timeoutMs must be between 100 and 5000' })],
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import fs from 'fs';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+
+// Roots are read when the services load, so they are set up first
+const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'file-')));
+const file = path.join(base, 'data.bin');
+
+process.env.ALLOWED_ROOTS = base;
+
+describe('downloadFile', () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    await fs.promises.writeFile(file, '0123456789');
+
+    const { downloadFile, validateFileDownload } = await import('../fileController');
+    const { errorHandler } = await import('../../middleware/errorHandler');
+    const app = express();
+    app.get('/file', validateFileDownload, downloadFile);
+    app.use(errorHandler);
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/file?path=${encodeURIComponent(file)}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.promises.rm(base, { recursive: true, force: true });
+  });
+
+  it('resumes a download whose If-Range carries the current ETag', async () => {
+    const etag = (await fetch(url)).headers.get('etag') as string;
+    expect(etag).toMatch(/^"/);
+
+    const response = await fetch(url, { headers: { Range: 'bytes=4-', 'If-Range': etag } });
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-range')).toBe('bytes 4-9/10');
+    await expect(response.text()).resolves.toBe('456789');
+  });
+
+  it('sends the whole file when the If-Range tag is stale or weak', async () => {
+    const etag = (await fetch(url)).headers.get('etag') as string;
+
+    for (const ifRange of ['"stale"', `W/${etag}`]) {
+      const response = await fetch(url, { headers: { Range: 'bytes=4-', 'If-Range': ifRange } });
+      expect(response.status).toBe(200);
+      await expect(response.text()).resolves.toBe('0123456789');
+    }
+  });
+
+  it('changes the ETag when the file changes', async () => {
+    const etag = (await fetch(url)).headers.get('etag') as string;
+    await fs.promises.writeFile(file, '9876543210');
+    await fs.promises.utimes(file, new Date(), new Date(Date.now() + 1000));
+
+    const response = await fetch(url, { headers: { Range: 'bytes=4-', 'If-Range': etag } });
+    expect(response.status).toBe(200);
+    await expect(response.text()).resolves.toBe('9876543210');
+  });
+});
@@ -0,0 +1,85 @@
+import { Request, Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import { AuditService } from '../services/auditService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Validation rules for querying the audit log
+ */
+export const validateAuditQuery = [
+  query('pathPrefix')
+    .optional()
+    .isString()
+    .withMessage('pathPrefix must be a string')
+    .isLength({ min: 1, max: 4096 })
+    .withMessage('pathPrefix must be between 1 and 4096 characters'),
+  query('actor')
+    .optional()
+    .isString()
+    .withMessage('actor must be a string')
+    .isLength({ min: 1, max: 256 })
+    .withMessage('actor must be between 1 and 256 characters'),
+  query('operation')
+    .optional()
+    .isString()
+    .withMessage('operation must be a string')
+    .isLength({ min: 1, max: 256 })
+    .withMessage('operation must be between 1 and 256 characters'),
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('from must be an ISO 8601 date')
+    .toDate(),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('to must be an ISO 8601 date')
+    .toDate(),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: AuditService.MAX_QUERY_RESULTS })
+    .withMessage(`limit must be between 1 and ${AuditService.MAX_QUERY_RESULTS}`)
+    .toInt(),
+];
+
+/**
+ * Controller for querying the audit log
+ */
+export const queryAuditLog = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const { pathPrefix, actor, operation, from, to, limit = 100 } = req.query as any;
+
+  logger.info('Audit log query request', {
+    pathPrefix,
+    actor,
+    operation,
+    from,
+    to,
+    limit,
+    ip: req.ip,
+  });
+
+  const result = await AuditService.query({
+    ...(pathPrefix && { pathPrefix }),
+    ...(actor && { actor }),
+    ...(operation && { operation }),
+    ...(from && { from }),
+    ...(to && { to }),
+    limit,
+  });
+
+  res.status(200).json({
+    success: true,
+    data: result,
+  });
+});
@@ -1,14 +1,43 @@
+import crypto from 'crypto';
 import { Request, Response } from 'express';
 import { query, validationResult } from 'express-validator';
 import { DirectoryService } from '../services/directoryService';
-import { asyncHandler } from '../middleware/errorHandler';
+import { ArchiveService } from '../services/archiveService';
+import { DirectoryWatchService } from '../services/watchService';
+import { DiskUsageService } from '../services/diskUsageService';
+import { asyncHandler, createError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import { recordAuditCounts } from '../utils/requestContext';
+import { parseExtensions } from '../utils/glob';
+import { sendProgressStream, waitForDrain } from '../utils/progressStream';
+import {
+  DirectoryListingResponse,
+  DirectoryWatchEvent,
+  DiskUsageOptions,
+  DiskUsageStreamRecord,
+  ListingFilters,
+  ListingSort,
+} from '../types/directory';
+
+const WATCH_HEARTBEAT_MS = parseInt(process.env.WATCH_HEARTBEAT_MS || '25000'); // 25 seconds
+const DISK_USAGE_TIMEOUT_MS = parseInt(process.env.DISK_USAGE_TIMEOUT_MS || '60000'); // 1 minute
+
+/**
+ * Splits a comma-separated query value (or repeated parameter) into trimmed,
+ * lowercase items
+ */
+const parseList = (value: unknown): string[] =>
+  String(value)
+    .split(',')
+    .map(item => item.trim().toLowerCase())
+    .filter(item => item.length > 0);
 
 /**
  * Validation rules for directory listing
  */
 export const validateDirectoryListing = [
   query('path')
+    .if(query('cursor').not().exists())
     .notEmpty()
     .withMessage('Path is required')
     .isLength({ max: 4096 })
@@ -30,12 +59,87 @@ export const validateDirectoryListing = [
     .toBoolean(),
   query('sortBy')
     .optional()
-    .isIn(['name', 'size', 'modified', 'type'])
-    .withMessage('sortBy must be one of: name, size, modified, type'),
+    .customSanitizer(parseList)
+    .custom((keys: string[]) => keys.length > 0 && keys.length <= 4 &&
+      keys.every(key => (DirectoryService.SORT_KEYS as string[]).includes(key)))
+    .withMessage(`sortBy must be a comma-separated list of up to 4 of: ${DirectoryService.SORT_KEYS.join(', ')}`),
   query('sortOrder')
     .optional()
-    .isIn(['asc', 'desc'])
-    .withMessage('sortOrder must be asc or desc'),
+    .customSanitizer(parseList)
+    .custom((orders: string[]) => orders.length > 0 && orders.length <= 4 &&
+      orders.every(order => order === 'asc' || order === 'desc'))
+    .withMessage('sortOrder must be asc or desc, or a comma-separated list of them'),
+  query('natural')
+    .optional()
+    .isBoolean()
+    .withMessage('natural must be a boolean')
+    .toBoolean(),
+  query('caseSensitive')
+    .optional()
+    .isBoolean()
+    .withMessage('caseSensitive must be a boolean')
+    .toBoolean(),
+  query('directoriesFirst')
+    .optional()
+    .isBoolean()
+    .withMessage('directoriesFirst must be a boolean')
+    .toBoolean(),
+  query('followSymlinks')
+    .optional()
+    .isBoolean()
+    .withMessage('followSymlinks must be a boolean')
+    .toBoolean(),
+  query('cursor')
+    .optional()
+    .isLength({ min: 1, max: 256 })
+    .withMessage('cursor must be between 1 and 256 characters'),
+  query('stream')
+    .optional()
+    .isBoolean()
+    .withMessage('stream must be a boolean')
+    .toBoolean(),
+  query('extensions')
+    .optional()
+    .isLength({ max: 1024 })
+    .withMessage('extensions too long'),
+  query('name')
+    .optional()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('name must be between 1 and 255 characters'),
+  query('pattern')
+    .optional()
+    .isLength({ min: 1, max: 1024 })
+    .withMessage('pattern must be between 1 and 1024 characters'),
+  query('type')
+    .optional()
+    .isIn(['file', 'directory'])
+    .withMessage('type must be file or directory'),
+  query('minSize')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('minSize must be a non-negative integer')
+    .toInt(),
+  query('maxSize')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('maxSize must be a non-negative integer')
+    .toInt(),
+  query('modifiedAfter')
+    .optional()
+    .isISO8601()
+    .withMessage('modifiedAfter must be an ISO 8601 date'),
+  query('modifiedBefore')
+    .optional()
+    .isISO8601()
+    .withMessage('modifiedBefore must be an ISO 8601 date'),
+  query('createdAfter')
+    .optional()
+    .isISO8601()
+    .withMessage('createdAfter must be an ISO 8601 date'),
+  query('createdBefore')
+    .optional()
+    .isISO8601()
+    .withMessage('createdBefore must be an ISO 8601 date'),
 ];
 
 /**
@@ -49,6 +153,156 @@ export const validateDirectoryMetadata = [
     .withMessage('Path too long'),
 ];
 
+/**
+ * Validation rules for directory tree
+ */
+export const validateDirectoryTree = [
+  query('path')
+    .notEmpty()
+    .withMessage('Path is required')
+    .isLength({ max: 4096 })
+    .withMessage('Path too long'),
+  query('maxDepth')
+    .optional()
+    .isInt({ min: 0, max: 20 })
+    .withMessage('maxDepth must be between 0 and 20')
+    .toInt(),
+  query('maxNodes')
+    .optional()
+    .isInt({ min: 1, max: 10000 })
+    .withMessage('maxNodes must be between 1 and 10000')
+    .toInt(),
+  query('includeHidden')
+    .optional()
+    .isBoolean()
+    .withMessage('includeHidden must be a boolean')
+    .toBoolean(),
+];
+
+/**
+ * Validation rules for directory watching
+ */
+export const validateDirectoryWatch = [
+  query('path')
+    .notEmpty()
+    .withMessage('Path is required')
+    .isLength({ max: 4096 })
+    .withMessage('Path too long'),
+  query('includeHidden')
+    .optional()
+    .isBoolean()
+    .withMessage('includeHidden must be a boolean')
+    .toBoolean(),
+  query('followSymlinks')
+    .optional()
+    .isBoolean()
+    .withMessage('followSymlinks must be a boolean')
+    .toBoolean(),
+];
+
+/**
+ * Validation rules for disk usage
+ */
+export const validateDiskUsage = [
+  query('path')
+    .notEmpty()
+    .withMessage('Path is required')
+    .isLength({ max: 4096 })
+    .withMessage('Path too long'),
+  query('maxDepth')
+    .optional()
+    .isInt({ min: 0, max: 1000 })
+    .withMessage('maxDepth must be between 0 and 1000')
+    .toInt(),
+  query('timeoutMs')
+    .optional()
+    .isInt({ min: 100, max: DISK_USAGE_TIMEOUT_MS })
+    .withMessage(`timeoutMs must be between 100 and ${DISK_USAGE_TIMEOUT_MS}`)
+    .toInt(),
+  query('top')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('top must be between 1 and 100')
+    .toInt(),
+  query('includeHidden')
+    .optional()
+    .isBoolean()
+    .withMessage('includeHidden must be a boolean')
+    .toBoolean(),
+  query('stream')
+    .optional()
+    .isBoolean()
+    .withMessage('stream must be a boolean')
+    .toBoolean(),
+];
+
+/**
+ * Sends a JSON payload with an ETag derived from its content and the given
+ * Last-Modified date, answering conditional requests with 304 while the
+ * client's copy is still current
+ */
+const sendWithValidators = (req: Request, res: Response, data: unknown, lastModified: string): void => {
+  const body = JSON.stringify({ success: true, data });
+
+  res.setHeader('ETag', `W/"${crypto.createHash('sha1').update(body).digest('base64url')}"`);
+  if (lastModified) {
+    res.setHeader('Last-Modified', new Date(lastModified).toUTCString());
+  }
+  // Let browsers keep a copy but revalidate it on every use
+  res.setHeader('Cache-Control', 'private, no-cache');
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  res.status(200).type('json').send(body);
+};
+
+/**
+ * Streams a directory listing as newline-delimited JSON, one entry per line
+ * as soon as it has been stat'ed, followed by a summary record
+ */
+const sendDirectoryStream = async (
+  res: Response,
+  dirPath: string,
+  includeHidden: boolean,
+  followSymlinks: boolean,
+  filters: ListingFilters
+): Promise<void> => {
+  const records = await DirectoryService.streamDirectory(dirPath, includeHidden, followSymlinks, filters);
+
+  res.status(200);
+  res.type('application/x-ndjson');
+  // Keep the compression middleware and proxies from buffering the stream
+  res.setHeader('Cache-Control', 'no-transform');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  // Leaving the loop early stops the scan and closes the directory handle
+  let entries = 0;
+  for await (const record of records) {
+    if (closed) {
+      break;
+    }
+
+    if (record.type === 'entry') {
+      entries++;
+    }
+    if (!res.write(`${JSON.stringify(record)}\n`)) {
+      await waitForDrain(res);
+    }
+  }
+
+  recordAuditCounts({ items: entries });
+  res.end();
+};
+
 /**
  * Controller for listing directory contents
  */
@@ -68,33 +322,90 @@ export const listDirectory = asyncHandler(async (req: Request, res: Response): P
     page = 1,
     limit = 100,
     includeHidden = false,
-    sortBy = 'name',
-    sortOrder = 'asc',
+    sortBy = ['name'],
+    sortOrder = ['asc'],
+    natural = true,
+    caseSensitive = false,
+    directoriesFirst = false,
+    followSymlinks = false,
+    cursor,
+    stream = false,
+    extensions,
+    name,
+    pattern,
+    type,
+    minSize,
+    maxSize,
+    modifiedAfter,
+    modifiedBefore,
+    createdAfter,
+    createdBefore,
   } = req.query as any;
 
+  const sort: ListingSort = {
+    keys: sortBy,
+    orders: sortOrder,
+    natural,
+    caseSensitive,
+    directoriesFirst,
+  };
+
+  const filters: ListingFilters = {
+    extensions: parseExtensions(extensions),
+    name,
+    pattern,
+    type,
+    minSize,
+    maxSize,
+    modifiedAfter,
+    modifiedBefore,
+    createdAfter,
+    createdBefore,
+  };
+
   logger.info('Directory listing request', {
     path: dirPath,
+    cursor,
     page,
     limit,
     includeHidden,
-    sortBy,
-    sortOrder,
+    ...sort,
+    followSymlinks,
+    stream,
+    ...filters,
     ip: req.ip,
   });
 
-  const result = await DirectoryService.listDirectory(
-    dirPath,
-    page,
-    limit,
-    includeHidden,
-    sortBy,
-    sortOrder
-  );
+  if (stream || req.accepts(['application/json', 'application/x-ndjson']) === 'application/x-ndjson') {
+    if (cursor || ArchiveService.parseArchivePath(dirPath)) {
+      throw createError('Streaming is only available for directories on disk', 400);
+    }
 
-  res.status(200).json({
-    success: true,
-    data: result,
-  });
+    await sendDirectoryStream(res, dirPath, includeHidden, followSymlinks, filters);
+    return;
+  }
+
+  let result: DirectoryListingResponse;
+  if (cursor) {
+    // Cursors page through the snapshot taken by an earlier request, filters included
+    result = await DirectoryService.listFromCursor(cursor, limit);
+  } else if (ArchiveService.parseArchivePath(dirPath)) {
+    // Paths like /data/backup.zip!/etc are listed from the archive headers
+    result = await ArchiveService.listDirectory(dirPath, page, limit, includeHidden, sort, filters);
+  } else {
+    result = await DirectoryService.listDirectory(
+      dirPath,
+      page,
+      limit,
+      includeHidden,
+      sort,
+      followSymlinks,
+      filters
+    );
+  }
+
+  recordAuditCounts({ items: result.items.length, total: result.pagination.total });
+  sendWithValidators(req, res, result, result.metadata.scannedAt);
 });
 
 /**
@@ -120,9 +431,188 @@ export const getDirectoryMetadata = asyncHandler(async (req: Request, res: Respo
 
   const metadata = await DirectoryService.getDirectoryMetadata(dirPath);
 
+  sendWithValidators(req, res, metadata, metadata.lastModified);
+});
+
+/**
+ * Controller for watching a directory over Server-Sent Events
+ */
+export const watchDirectory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const {
+    path: dirPath,
+    includeHidden = false,
+    followSymlinks = false,
+  } = req.query as any;
+
+  logger.info('Directory watch request', {
+    path: dirPath,
+    includeHidden,
+    followSymlinks,
+    ip: req.ip,
+  });
+
+  if (ArchiveService.parseArchivePath(dirPath)) {
+    throw createError('Watching is only available for directories on disk', 400);
+  }
+
+  const sendEvent = (event: DirectoryWatchEvent | { type: 'ready'; path: string }): void => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  const { path: watchedPath, unsubscribe } = await DirectoryWatchService.subscribe(
+    dirPath,
+    req.ip || 'unknown',
+    includeHidden,
+    followSymlinks,
+    (event) => {
+      sendEvent(event);
+      if (event.type === 'error') {
+        res.end();
+      }
+    }
+  );
+
+  if (closed) {
+    // The client went away while the watch was being set up
+    unsubscribe();
+    return;
+  }
+
+  res.status(200);
+  res.type('text/event-stream');
+  // Keep the compression middleware and proxies from buffering the events
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  sendEvent({ type: 'ready', path: watchedPath });
+
+  // Comment lines keep idle connections from being closed by proxies
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), WATCH_HEARTBEAT_MS);
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+/**
+ * Controller for computing recursive disk usage. With `stream=true` (or an
+ * NDJSON Accept header) progress records are sent while the scan runs,
+ * followed by the result.
+ */
+export const getDiskUsage = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const {
+    path: dirPath,
+    maxDepth,
+    timeoutMs = DISK_USAGE_TIMEOUT_MS,
+    top = 10,
+    includeHidden = true,
+    stream = false,
+  } = req.query as any;
+
+  logger.info('Disk usage request', {
+    path: dirPath,
+    maxDepth,
+    timeoutMs,
+    top,
+    includeHidden,
+    stream,
+    ip: req.ip,
+  });
+
+  const options: DiskUsageOptions = {
+    maxDepth: maxDepth ?? Infinity,
+    timeoutMs,
+    top,
+    includeHidden,
+  };
+
+  // Stop scanning once the client has gone away
+  const abort = new AbortController();
+  res.on('close', () => abort.abort());
+
+  if (!stream && req.accepts(['application/json', 'application/x-ndjson']) !== 'application/x-ndjson') {
+    const usage = await DiskUsageService.getUsage(dirPath, options, undefined, abort.signal);
+    recordAuditCounts({ files: usage.totals.files, directories: usage.totals.directories });
+
+    res.status(200).json({
+      success: true,
+      data: usage,
+    });
+    return;
+  }
+
+  await sendProgressStream<DiskUsageStreamRecord>(res, async (emit) => {
+    const usage = await DiskUsageService.getUsage(dirPath, options, (progress) => {
+      emit({ type: 'progress', progress });
+    }, abort.signal);
+    recordAuditCounts({ files: usage.totals.files, directories: usage.totals.directories });
+
+    return { type: 'result', usage };
+  });
+});
+
+/**
+ * Controller for getting a recursive directory tree
+ */
+export const getDirectoryTree = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const {
+    path: dirPath,
+    maxDepth = 3,
+    maxNodes = 1000,
+    includeHidden = false,
+  } = req.query as any;
+
+  logger.info('Directory tree request', {
+    path: dirPath,
+    maxDepth,
+    maxNodes,
+    includeHidden,
+    ip: req.ip,
+  });
+
+  const tree = await DirectoryService.getDirectoryTree(dirPath, maxDepth, maxNodes, includeHidden);
+  recordAuditCounts({ nodes: tree.metadata.totalNodes });
+
   res.status(200).json({
     success: true,
-    data: metadata,
+    data: tree,
   });
 });
 
@@ -136,8 +626,32 @@ export const getApiInfo = (req: Request, res: Response): void => {
     description: 'REST API for file system directory listing with metadata and permissions',
     endpoints: {
       'GET /': 'API information',
-      'GET /list': 'List directory contents with pagination',
+      'GET /list': 'List directory contents with pagination (also inside zip/tar archives)',
       'GET /metadata': 'Get directory metadata',
+      'GET /tree': 'Get a nested directory tree with aggregated sizes',
+      'GET /watch': 'Watch a directory for changes (Server-Sent Events)',
+      'GET /usage': 'Compute recursive disk usage with progress reporting',
+      'GET /search': 'Search files recursively by name (glob or regex)',
+      'GET /search/content': 'Search file contents recursively (grep)',
+      'GET /search/duplicates': 'Find duplicate files by content hash',
+      'GET /file': 'Download or stream a file (supports Range requests)',
+      'GET /preview': 'Preview lines of a text file (head or tail)',
+      'GET /checksum': 'Compute MD5/SHA-1/SHA-256/SHA-512 checksums of a file',
+      'GET /checksum/manifest': 'Stream a sha256sum-style checksum manifest of a directory',
+      'POST /checksum/verify': 'Verify a directory against a checksum manifest',
+      'GET /archive': 'Download a directory as a streamed zip or tar.gz archive',
+      'POST /archive': 'Download a selection of paths as a streamed zip or tar.gz archive',
+      'POST /mkdir': 'Create a directory (when writes are enabled)',
+      'PATCH /rename': 'Rename a file or directory (when writes are enabled)',
+      'POST /move': 'Move a file or directory (when writes are enabled)',
+      'POST /copy': 'Copy a file or directory (when writes are enabled)',
+      'DELETE /entry': 'Move a file or directory to the trash (when writes are enabled)',
+      'POST /upload': 'Upload files into a directory (multipart, when writes are enabled)',
+      'GET /trash': 'List deleted entries (when writes are enabled)',
+      'POST /trash/:id/restore': 'Restore a deleted entry (when writes are enabled)',
+      'DELETE /trash/:id': 'Permanently delete a trashed entry (when writes are enabled)',
+      'DELETE /trash': 'Empty the trash (when writes are enabled)',
+      'GET /audit': 'Query the audit log by path prefix, actor, operation and time range',
     },
     features: [
       'Full directory listing with file metadata',
@@ -146,6 +660,19 @@ export const getApiInfo = (req: Request, res: Response): void => {
       'Sorting and filtering',
       'Security protection against path traversal',
       'Cross-platform compatibility',
+      'Browsing zip and tar archives as virtual directories',
+      'Symbolic link detection with target and broken-link reporting',
+      'Streaming NDJSON listings for very large directories',
+      'Live change notifications over Server-Sent Events',
+      'Recursive disk usage with largest directories and files',
+      'Duplicate file detection with reclaimable space',
+      'File checksums with manifest creation and verification',
+      'Streamed zip and tar.gz downloads of directories and selections',
+      'Opt-in write operations with conflict policies, a recoverable trash and an audit log',
+      'Multipart uploads with atomic writes, size quotas and an extension allowlist',
+      'API key and JWT authentication with per-role roots and operations',
+      'Audit log of every filesystem access with a query endpoint',
+      'Prometheus metrics at /metrics',
     ],
   });
 };
\ No newline at end of file
@@ -0,0 +1,616 @@
+import path from 'path';
+import { Request, Response, NextFunction } from 'express';
+import { ValidationChain, body, query, validationResult } from 'express-validator';
+import { FileService } from '../services/fileService';
+import { ChecksumService } from '../services/checksumService';
+import { ArchiveService } from '../services/archiveService';
+import { ArchiveExportService } from '../services/archiveExportService';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { recordAuditCounts } from '../utils/requestContext';
+import { waitForDrain } from '../utils/progressStream';
+import { ArchiveExportOptions, ArchiveFormat, ChecksumAlgorithm, DownloadableFile, FilePreviewOptions } from '../types/directory';
+
+/**
+ * Validation rules for file download
+ */
+export const validateFileDownload = [
+  query('path')
+    .notEmpty()
+    .withMessage('Path is required')
+    .isLength({ max: 4096 })
+    .withMessage('Path too long'),
+  query('download')
+    .optional()
+    .isBoolean()
+    .withMessage('download must be a boolean')
+    .toBoolean(),
+];
+
+/**
+ * Validation rules for file preview
+ */
+export const validateFilePreview = [
+  query('path')
+    .notEmpty()
+    .withMessage('Path is required')
+    .isLength({ max: 4096 })
+    .withMessage('Path too long'),
+  query('startLine')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('startLine must be a positive integer')
+    .toInt(),
+  query('endLine')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('endLine must be a positive integer')
+    .toInt()
+    .custom((endLine, { req }) => endLine >= (req.query?.startLine ?? 1))
+    .withMessage('endLine must not be before startLine'),
+  query('tail')
+    .optional()
+    .isInt({ min: 1, max: FileService.MAX_PREVIEW_LINES })
+    .withMessage(`tail must be between 1 and ${FileService.MAX_PREVIEW_LINES}`)
+    .toInt(),
+  query('maxBytes')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('maxBytes must be a positive integer')
+    .toInt(),
+];
+
+/**
+ * Validation rules for file checksums
+ */
+export const validateFileChecksum = [
+  query('path')
+    .notEmpty()
+    .withMessage('Path is required')
+    .isLength({ max: 4096 })
+    .withMessage('Path too long'),
+  query('algorithms')
+    .optional()
+    .customSanitizer((value: string) => String(value).split(',').map(algorithm => algorithm.trim().toLowerCase()))
+    .custom((algorithms: string[]) => algorithms.every(algorithm => (ChecksumService.ALGORITHMS as string[]).includes(algorithm)))
+    .withMessage(`algorithms must be a comma-separated list of: ${ChecksumService.ALGORITHMS.join(', ')}`),
+];
+
+/**
+ * Validation rules for checksum manifests
+ */
+export const validateChecksumManifest = [
+  query('path')
+    .notEmpty()
+    .withMessage('Path is required')
+    .isLength({ max: 4096 })
+    .withMessage('Path too long'),
+  query('algorithm')
+    .optional()
+    .isIn(ChecksumService.ALGORITHMS)
+    .withMessage(`algorithm must be one of: ${ChecksumService.ALGORITHMS.join(', ')}`),
+  query('includeHidden')
+    .optional()
+    .isBoolean()
+    .withMessage('includeHidden must be a boolean')
+    .toBoolean(),
+];
+
+/**
+ * Validation rules for manifest verification
+ */
+export const validateManifestVerification = [
+  body('path')
+    .isString()
+    .notEmpty()
+    .withMessage('Path is required')
+    .isLength({ max: 4096 })
+    .withMessage('Path too long'),
+  body('manifest')
+    .isString()
+    .notEmpty()
+    .withMessage('manifest is required'),
+  body('algorithm')
+    .optional()
+    .isIn(ChecksumService.ALGORITHMS)
+    .withMessage(`algorithm must be one of: ${ChecksumService.ALGORITHMS.join(', ')}`),
+  body('includeHidden')
+    .optional()
+    .isBoolean()
+    .withMessage('includeHidden must be a boolean')
+    .toBoolean(),
+];
+
+/**
+ * Validation rules shared by directory and selection archive downloads
+ */
+const archiveOptionRules = (location: typeof body | typeof query): ValidationChain[] => [
+  location('format')
+    .optional()
+    .isIn(ArchiveExportService.FORMATS)
+    .withMessage(`format must be one of: ${ArchiveExportService.FORMATS.join(', ')}`),
+  location('includeHidden')
+    .optional()
+    .isBoolean()
+    .withMessage('includeHidden must be a boolean')
+    .toBoolean(),
+  location('maxBytes')
+    .optional()
+    .isInt({ min: 1, max: ArchiveExportService.MAX_BYTES })
+    .withMessage(`maxBytes must be between 1 and ${ArchiveExportService.MAX_BYTES}`)
+    .toInt(),
+  location('maxFiles')
+    .optional()
+    .isInt({ min: 1, max: ArchiveExportService.MAX_FILES })
+    .withMessage(`maxFiles must be between 1 and ${ArchiveExportService.MAX_FILES}`)
+    .toInt(),
+];
+
+/**
+ * Validation rules for downloading a directory as an archive
+ */
+export const validateArchiveDownload = [
+  query('path')
+    .notEmpty()
+    .withMessage('Path is required')
+    .isLength({ max: 4096 })
+    .withMessage('Path too long'),
+  ...archiveOptionRules(query),
+];
+
+/**
+ * Validation rules for downloading a selection of paths as an archive
+ */
+export const validateSelectionArchiveDownload = [
+  body('paths')
+    .isArray({ min: 1, max: 1000 })
+    .withMessage('paths must be an array of 1 to 1000 paths'),
+  body('paths.*')
+    .isString()
+    .notEmpty()
+    .withMessage('paths must not contain empty values')
+    .isLength({ max: 4096 })
+    .withMessage('Path too long'),
+  ...archiveOptionRules(body),
+];
+
+/**
+ * Checks the If-Range precondition; a stale validator means the full file
+ * must be sent instead of the requested range. Entity tags are compared
+ * strongly (RFC 9110, section 13.1.5), so a weak tag never matches.
+ */
+const isRangeFresh = (req: Request, file: DownloadableFile): boolean => {
+  const ifRange = req.get('If-Range');
+  if (!ifRange) {
+    return true;
+  }
+
+  if (ifRange.includes('"')) {
+    return !file.etag.startsWith('W/') && ifRange.trim() === file.etag;
+  }
+
+  return Math.floor(file.modified.getTime() / 1000) <= Math.floor(Date.parse(ifRange) / 1000);
+};
+
+/**
+ * Resolves the single byte range to serve, if any. Malformed and multi-part
+ * ranges are ignored and the whole file is sent instead.
+ */
+const resolveRange = (req: Request, res: Response, file: DownloadableFile): { start: number; end: number } | undefined => {
+  if (!req.get('Range') || !isRangeFresh(req, file)) {
+    return undefined;
+  }
+
+  const ranges = req.range(file.size, { combine: true });
+  if (ranges === -1) {
+    res.setHeader('Content-Range', `bytes */${file.size}`);
+    throw createError('Requested range not satisfiable', 416);
+  }
+
+  if (ranges === -2 || ranges === undefined || ranges.type !== 'bytes' || ranges.length !== 1) {
+    return undefined;
+  }
+
+  return ranges[0];
+};
+
+/**
+ * Streams a single entry out of a zip or tar archive. Entries are
+ * decompressed on the fly, so Range requests are not supported.
+ */
+const sendArchiveEntry = async (req: Request, res: Response, next: NextFunction, download: boolean): Promise<void> => {
+  const filePath = req.query.path as string;
+  const entry = await ArchiveService.getEntryInfo(filePath);
+
+  res.setHeader('Accept-Ranges', 'none');
+  res.setHeader('ETag', `W/"${entry.size.toString(16)}-${new Date(entry.modifiedDate).getTime().toString(16)}"`);
+  res.setHeader('Last-Modified', new Date(entry.modifiedDate).toUTCString());
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  res.type(entry.extension || 'application/octet-stream');
+  res.setHeader('Content-Length', entry.size);
+  if (download) {
+    res.attachment(entry.name);
+  }
+
+  if (req.method === 'HEAD') {
+    res.status(200).end();
+    return;
+  }
+
+  const stream = await ArchiveService.openEntryStream(filePath);
+  stream.on('error', (error) => {
+    logger.error(`Failed to stream archive entry: ${filePath}`, { error: error.message });
+    if (res.headersSent) {
+      res.destroy(error);
+    } else {
+      next(error);
+    }
+  });
+  res.on('close', () => stream.destroy());
+  res.status(200);
+  stream.pipe(res);
+};
+
+/**
+ * Controller for streaming file contents with HTTP Range support
+ */
+export const downloadFile = asyncHandler(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const { path: filePath, download = false } = req.query as any;
+
+  logger.info('File download request', {
+    path: filePath,
+    range: req.get('Range'),
+    ip: req.ip,
+  });
+
+  if (ArchiveService.parseArchivePath(filePath)) {
+    await sendArchiveEntry(req, res, next, download);
+    return;
+  }
+
+  const file = await FileService.getDownloadableFile(filePath);
+
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('ETag', file.etag);
+  res.setHeader('Last-Modified', file.modified.toUTCString());
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  const range = resolveRange(req, res, file);
+
+  res.type(path.extname(file.name) || 'application/octet-stream');
+  // Keep the compression middleware from altering byte offsets
+  res.setHeader('Cache-Control', 'no-transform');
+  if (download) {
+    res.attachment(file.name);
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${file.size}`);
+    res.setHeader('Content-Length', range.end - range.start + 1);
+  } else {
+    res.status(200);
+    res.setHeader('Content-Length', file.size);
+  }
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  recordAuditCounts({ bytes: range ? range.end - range.start + 1 : file.size });
+  const stream = FileService.createReadStream(file, range);
+  stream.on('error', (error) => {
+    logger.error(`Failed to stream file: ${file.path}`, { error: error.message });
+    if (res.headersSent) {
+      res.destroy(error);
+    } else {
+      next(error);
+    }
+  });
+  res.on('close', () => stream.destroy());
+  stream.pipe(res);
+});
+
+/**
+ * Controller for previewing part of a text file
+ */
+export const previewFile = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const {
+    path: filePath,
+    startLine = 1,
+    endLine,
+    tail,
+    maxBytes = FileService.MAX_PREVIEW_BYTES,
+  } = req.query as any;
+
+  const options: FilePreviewOptions = { startLine, endLine, tail, maxBytes };
+
+  logger.info('File preview request', {
+    path: filePath,
+    ...options,
+    ip: req.ip,
+  });
+
+  const preview = await FileService.getPreview(filePath, options);
+  recordAuditCounts({ lines: preview.lines.length });
+
+  res.status(200).json({
+    success: true,
+    data: preview,
+  });
+});
+
+/**
+ * Controller for computing the checksums of a file
+ */
+export const getFileChecksum = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const { path: filePath, algorithms = ['sha256'] } = req.query as any;
+
+  logger.info('File checksum request', {
+    path: filePath,
+    algorithms,
+    ip: req.ip,
+  });
+
+  const checksums = await ChecksumService.getFileChecksums(filePath, Array.from(new Set<ChecksumAlgorithm>(algorithms)));
+  recordAuditCounts({ bytes: checksums.size });
+
+  res.status(200).json({
+    success: true,
+    data: checksums,
+  });
+});
+
+/**
+ * Controller for streaming a checksum manifest of a directory as plain text
+ */
+export const getChecksumManifest = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const { path: dirPath, algorithm = 'sha256', includeHidden = true } = req.query as any;
+
+  logger.info('Checksum manifest request', {
+    path: dirPath,
+    algorithm,
+    includeHidden,
+    ip: req.ip,
+  });
+
+  const abort = new AbortController();
+  const lines = await ChecksumService.createManifest(dirPath, algorithm, includeHidden, abort.signal);
+
+  res.status(200);
+  res.attachment(`${path.basename(dirPath) || 'manifest'}.${algorithm}`);
+  res.type('text/plain');
+  // Lines are sent as files are hashed; keep proxies and compression from holding them back
+  res.setHeader('Cache-Control', 'no-transform');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  // Stop the walk and the files being hashed as soon as the client goes away
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+    abort.abort();
+    void lines.return(undefined);
+  });
+
+  let files = 0;
+  try {
+    for await (const line of lines) {
+      if (closed) {
+        break;
+      }
+      files++;
+      if (!res.write(line)) {
+        await waitForDrain(res);
+      }
+    }
+  } catch (error) {
+    // A partial manifest must not look complete, so abort the transfer; after
+    // a disconnect the error is just the hashing being cancelled
+    if (!closed) {
+      logger.error(`Failed to create checksum manifest: ${dirPath}`, { error: (error as Error).message });
+      res.destroy(error as Error);
+    }
+    return;
+  } finally {
+    recordAuditCounts({ files });
+  }
+
+  res.end();
+});
+
+/**
+ * Controller for verifying a directory against a checksum manifest
+ */
+export const verifyChecksumManifest = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const { path: dirPath, manifest, algorithm, includeHidden = true } = req.body;
+
+  logger.info('Checksum verification request', {
+    path: dirPath,
+    algorithm,
+    manifestBytes: manifest.length,
+    includeHidden,
+    ip: req.ip,
+  });
+
+  const abort = new AbortController();
+  res.on('close', () => abort.abort());
+
+  const result = await ChecksumService.verifyManifest(dirPath, manifest, includeHidden, algorithm, abort.signal);
+  recordAuditCounts({ files: result.metadata.filesChecked, mismatched: result.mismatched.length });
+
+  res.status(200).json({
+    success: true,
+    data: result,
+  });
+});
+
+/**
+ * Plans an archive of the given paths and streams it to the client. Cap
+ * violations and path errors are reported before any byte is sent; an error
+ * while packing aborts the transfer so a truncated archive is not mistaken for
+ * a complete one.
+ */
+const sendArchive = async (
+  req: Request,
+  res: Response,
+  paths: string[],
+  format: ArchiveFormat,
+  options: ArchiveExportOptions
+): Promise<void> => {
+  const plan = await ArchiveExportService.plan(paths, options);
+  recordAuditCounts({ files: plan.files, bytes: plan.bytes });
+
+  const abort = new AbortController();
+  res.on('close', () => abort.abort());
+
+  res.status(200);
+  res.attachment(`${plan.name}.${format}`);
+  res.type(format === 'zip' ? 'application/zip' : 'application/gzip');
+  res.setHeader('Cache-Control', 'no-transform');
+  res.setHeader('X-Accel-Buffering', 'no');
+
+  try {
+    const summary = await ArchiveExportService.pack(plan, format, res, abort.signal);
+    recordAuditCounts({ files: summary.files, bytes: summary.bytes, skipped: summary.skipped.length });
+    logger.info(`Archive sent: ${plan.name}.${format}`, {
+      files: summary.files,
+      bytes: summary.bytes,
+      skipped: summary.skipped.length,
+      durationMs: summary.durationMs,
+      ip: req.ip,
+    });
+  } catch (error) {
+    logger.error(`Failed to send archive: ${plan.name}.${format}`, { error: (error as Error).message });
+    res.destroy(error as Error);
+  }
+};
+
+/**
+ * Controller for downloading a directory as a zip or tar.gz archive
+ */
+export const downloadArchive = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const {
+    path: dirPath,
+    format = 'zip',
+    includeHidden = false,
+    maxBytes = ArchiveExportService.MAX_BYTES,
+    maxFiles = ArchiveExportService.MAX_FILES,
+  } = req.query as any;
+
+  logger.info('Archive download request', {
+    path: dirPath,
+    format,
+    includeHidden,
+    maxBytes,
+    maxFiles,
+    ip: req.ip,
+  });
+
+  await sendArchive(req, res, [dirPath], format, { includeHidden, maxBytes, maxFiles });
+});
+
+/**
+ * Controller for downloading a selection of files and directories as a zip or
+ * tar.gz archive
+ */
+export const downloadSelectionArchive = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const {
+    paths,
+    format = 'zip',
+    includeHidden = false,
+    maxBytes = ArchiveExportService.MAX_BYTES,
+    maxFiles = ArchiveExportService.MAX_FILES,
+  } = req.body;
+
+  logger.info('Selection archive download request', {
+    paths: paths.length,
+    format,
+    includeHidden,
+    maxBytes,
+    maxFiles,
+    ip: req.ip,
+  });
+
+  await sendArchive(req, res, paths, format, { includeHidden, maxBytes, maxFiles });
+});
@@ -0,0 +1,381 @@
+import { Request, Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import { SearchService } from '../services/searchService';
+import { DuplicateService } from '../services/duplicateService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { recordAuditCounts } from '../utils/requestContext';
+import { parseExtensions } from '../utils/glob';
+import { sendProgressStream } from '../utils/progressStream';
+import {
+  NameSearchOptions,
+  ContentSearchOptions,
+  DuplicateSearchOptions,
+  DuplicateSearchStreamRecord,
+} from '../types/directory';
+
+const DUPLICATES_TIMEOUT_MS = parseInt(process.env.DUPLICATES_TIMEOUT_MS || '300000'); // 5 minutes
+
+/**
+ * Validation rules for name search
+ */
+export const validateNameSearch = [
+  query('path')
+    .notEmpty()
+    .withMessage('Path is required')
+    .isLength({ max: 4096 })
+    .withMessage('Path too long'),
+  query('pattern')
+    .if(query('regex').not().exists())
+    .notEmpty()
+    .withMessage('Either pattern or regex is required')
+    .isLength({ max: 1024 })
+    .withMessage('Pattern too long'),
+  query('regex')
+    .optional()
+    .notEmpty()
+    .withMessage('regex must not be empty')
+    .isLength({ max: 1024 })
+    .withMessage('Regex too long'),
+  query('caseSensitive')
+    .optional()
+    .isBoolean()
+    .withMessage('caseSensitive must be a boolean')
+    .toBoolean(),
+  query('type')
+    .optional()
+    .isIn(['file', 'directory'])
+    .withMessage('type must be file or directory'),
+  query('extensions')
+    .optional()
+    .isLength({ max: 1024 })
+    .withMessage('extensions too long'),
+  query('minSize')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('minSize must be a non-negative integer')
+    .toInt(),
+  query('maxSize')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('maxSize must be a non-negative integer')
+    .toInt(),
+  query('modifiedAfter')
+    .optional()
+    .isISO8601()
+    .withMessage('modifiedAfter must be an ISO 8601 date'),
+  query('modifiedBefore')
+    .optional()
+    .isISO8601()
+    .withMessage('modifiedBefore must be an ISO 8601 date'),
+  query('maxDepth')
+    .optional()
+    .isInt({ min: 0, max: 50 })
+    .withMessage('maxDepth must be between 0 and 50')
+    .toInt(),
+  query('maxResults')
+    .optional()
+    .isInt({ min: 1, max: 10000 })
+    .withMessage('maxResults must be between 1 and 10000')
+    .toInt(),
+  query('includeHidden')
+    .optional()
+    .isBoolean()
+    .withMessage('includeHidden must be a boolean')
+    .toBoolean(),
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer')
+    .toInt(),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 1000 })
+    .withMessage('Limit must be between 1 and 1000')
+    .toInt(),
+];
+
+/**
+ * Validation rules for content search
+ */
+export const validateContentSearch = [
+  query('path')
+    .notEmpty()
+    .withMessage('Path is required')
+    .isLength({ max: 4096 })
+    .withMessage('Path too long'),
+  query('query')
+    .notEmpty()
+    .withMessage('Query is required')
+    .isLength({ max: 1024 })
+    .withMessage('Query too long'),
+  query('regex')
+    .optional()
+    .isBoolean()
+    .withMessage('regex must be a boolean')
+    .toBoolean(),
+  query('caseSensitive')
+    .optional()
+    .isBoolean()
+    .withMessage('caseSensitive must be a boolean')
+    .toBoolean(),
+  query('filePattern')
+    .optional()
+    .isLength({ min: 1, max: 1024 })
+    .withMessage('filePattern must be between 1 and 1024 characters'),
+  query('maxFileSize')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('maxFileSize must be a positive integer')
+    .toInt(),
+  query('maxMatches')
+    .optional()
+    .isInt({ min: 1, max: 10000 })
+    .withMessage('maxMatches must be between 1 and 10000')
+    .toInt(),
+  query('timeoutMs')
+    .optional()
+    .isInt({ min: 100, max: 60000 })
+    .withMessage('timeoutMs must be between 100 and 60000')
+    .toInt(),
+  query('maxDepth')
+    .optional()
+    .isInt({ min: 0, max: 50 })
+    .withMessage('maxDepth must be between 0 and 50')
+    .toInt(),
+  query('includeHidden')
+    .optional()
+    .isBoolean()
+    .withMessage('includeHidden must be a boolean')
+    .toBoolean(),
+];
+
+/**
+ * Validation rules for the duplicate file search
+ */
+export const validateDuplicateSearch = [
+  query('path')
+    .notEmpty()
+    .withMessage('Path is required')
+    .isLength({ max: 4096 })
+    .withMessage('Path too long'),
+  query('minSize')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('minSize must be a non-negative integer')
+    .toInt(),
+  query('extensions')
+    .optional()
+    .isLength({ max: 1024 })
+    .withMessage('extensions too long'),
+  query('maxDepth')
+    .optional()
+    .isInt({ min: 0, max: 50 })
+    .withMessage('maxDepth must be between 0 and 50')
+    .toInt(),
+  query('maxGroups')
+    .optional()
+    .isInt({ min: 1, max: 1000 })
+    .withMessage('maxGroups must be between 1 and 1000')
+    .toInt(),
+  query('timeoutMs')
+    .optional()
+    .isInt({ min: 100, max: 3600000 })
+    .withMessage('timeoutMs must be between 100 and 3600000')
+    .toInt(),
+  query('includeHidden')
+    .optional()
+    .isBoolean()
+    .withMessage('includeHidden must be a boolean')
+    .toBoolean(),
+  query('stream')
+    .optional()
+    .isBoolean()
+    .withMessage('stream must be a boolean')
+    .toBoolean(),
+];
+
+/**
+ * Controller for searching files by name
+ */
+export const searchByName = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const {
+    path: basePath,
+    pattern,
+    regex,
+    caseSensitive = false,
+    type,
+    extensions,
+    minSize,
+    maxSize,
+    modifiedAfter,
+    modifiedBefore,
+    maxDepth = 10,
+    maxResults = 1000,
+    includeHidden = false,
+    page = 1,
+    limit = 100,
+  } = req.query as any;
+
+  const options: NameSearchOptions = {
+    pattern,
+    regex,
+    caseSensitive,
+    type,
+    extensions: parseExtensions(extensions),
+    minSize,
+    maxSize,
+    modifiedAfter,
+    modifiedBefore,
+    maxDepth,
+    maxResults,
+    includeHidden,
+  };
+
+  logger.info('Name search request', {
+    path: basePath,
+    ...options,
+    page,
+    limit,
+    ip: req.ip,
+  });
+
+  const result = await SearchService.searchByName(basePath, options, page, limit);
+  recordAuditCounts({ matches: result.metadata.totalMatches, scanned: result.metadata.scannedEntries });
+
+  res.status(200).json({
+    success: true,
+    data: result,
+  });
+});
+
+/**
+ * Controller for searching file contents
+ */
+export const searchContent = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const {
+    path: basePath,
+    query: searchQuery,
+    regex = false,
+    caseSensitive = false,
+    filePattern,
+    maxFileSize = 10485760,
+    maxMatches = 500,
+    timeoutMs = 10000,
+    maxDepth = 10,
+    includeHidden = false,
+  } = req.query as any;
+
+  const options: ContentSearchOptions = {
+    query: searchQuery,
+    isRegex: regex,
+    caseSensitive,
+    filePattern,
+    maxFileSize,
+    maxMatches,
+    timeoutMs,
+    maxDepth,
+    includeHidden,
+  };
+
+  logger.info('Content search request', {
+    path: basePath,
+    ...options,
+    ip: req.ip,
+  });
+
+  const result = await SearchService.searchContent(basePath, options);
+  recordAuditCounts({ matches: result.metadata.totalMatches, scanned: result.metadata.filesScanned });
+
+  res.status(200).json({
+    success: true,
+    data: result,
+  });
+});
+
+/**
+ * Controller for finding duplicate files. With `stream=true` (or an NDJSON
+ * Accept header) progress records are sent while the search runs, followed
+ * by the result. Closing the connection cancels the search.
+ */
+export const findDuplicates = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const {
+    path: basePath,
+    minSize = 1,
+    extensions,
+    maxDepth = 50,
+    maxGroups = 100,
+    timeoutMs = DUPLICATES_TIMEOUT_MS,
+    includeHidden = false,
+    stream = false,
+  } = req.query as any;
+
+  const options: DuplicateSearchOptions = {
+    minSize,
+    extensions: parseExtensions(extensions),
+    maxDepth,
+    includeHidden,
+    maxGroups,
+    timeoutMs: Math.min(timeoutMs, DUPLICATES_TIMEOUT_MS),
+  };
+
+  logger.info('Duplicate search request', {
+    path: basePath,
+    ...options,
+    stream,
+    ip: req.ip,
+  });
+
+  const abort = new AbortController();
+  res.on('close', () => abort.abort());
+
+  if (!stream && req.accepts(['application/json', 'application/x-ndjson']) !== 'application/x-ndjson') {
+    const result = await DuplicateService.findDuplicates(basePath, options, undefined, abort.signal);
+    recordAuditCounts({ groups: result.metadata.duplicateGroups, scanned: result.metadata.filesScanned });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+    return;
+  }
+
+  await sendProgressStream<DuplicateSearchStreamRecord>(res, async (emit) => {
+    const duplicates = await DuplicateService.findDuplicates(basePath, options, (progress) => {
+      emit({ type: 'progress', progress });
+    }, abort.signal);
+    recordAuditCounts({ groups: duplicates.metadata.duplicateGroups, scanned: duplicates.metadata.filesScanned });
+
+    return { type: 'result', duplicates };
+  });
+});
@@ -0,0 +1,325 @@
+import { Request, Response } from 'express';
+import { ValidationChain, body, param, query, validationResult } from 'express-validator';
+import { WriteService } from '../services/writeService';
+import { UploadService } from '../services/uploadService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { recordAuditCounts } from '../utils/requestContext';
+
+const pathRule = (field: string, location: typeof body | typeof query = body): ValidationChain =>
+  location(field)
+    .isString()
+    .withMessage(`${field} must be a string`)
+    .notEmpty()
+    .withMessage(`${field} is required`)
+    .isLength({ max: 4096 })
+    .withMessage(`${field} too long`);
+
+const conflictRule = (location: typeof body | typeof query = body): ValidationChain =>
+  location('conflict')
+    .optional()
+    .isIn(WriteService.CONFLICT_POLICIES)
+    .withMessage(`conflict must be one of: ${WriteService.CONFLICT_POLICIES.join(', ')}`);
+
+const trashIdRule = (): ValidationChain =>
+  param('id')
+    .isUUID()
+    .withMessage('id must be a trash item id');
+
+/**
+ * Validation rules for directory creation
+ */
+export const validateCreateDirectory = [
+  pathRule('path'),
+  body('parents')
+    .optional()
+    .isBoolean()
+    .withMessage('parents must be a boolean')
+    .toBoolean(),
+  conflictRule(),
+];
+
+/**
+ * Validation rules for renaming an entry
+ */
+export const validateRename = [
+  pathRule('path'),
+  body('name')
+    .isString()
+    .notEmpty()
+    .withMessage('name is required')
+    .isLength({ max: 255 })
+    .withMessage('name too long'),
+  conflictRule(),
+];
+
+/**
+ * Validation rules for moving or copying an entry
+ */
+export const validateTransfer = [
+  pathRule('source'),
+  pathRule('destination'),
+  conflictRule(),
+];
+
+/**
+ * Validation rules for deleting an entry
+ */
+export const validateDelete = [
+  pathRule('path', query),
+];
+
+/**
+ * Validation rules for uploads; the multipart body itself is checked while
+ * it is received
+ */
+export const validateUpload = [
+  pathRule('path', query),
+  conflictRule(query),
+];
+
+/**
+ * Validation rules for restoring a trashed entry
+ */
+export const validateRestore = [
+  trashIdRule(),
+  conflictRule(),
+];
+
+/**
+ * Validation rules for purging a trashed entry
+ */
+export const validatePurge = [
+  trashIdRule(),
+];
+
+/**
+ * Controller for creating a directory
+ */
+export const createDirectory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const { path: dirPath, parents = false, conflict = 'fail' } = req.body;
+
+  logger.info('Create directory request', { path: dirPath, parents, conflict, ip: req.ip });
+
+  const result = await WriteService.createDirectory(dirPath, parents, conflict);
+
+  res.status(201).json({
+    success: true,
+    data: result,
+  });
+});
+
+/**
+ * Controller for renaming an entry
+ */
+export const renameEntry = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const { path: entryPath, name, conflict = 'fail' } = req.body;
+
+  logger.info('Rename request', { path: entryPath, name, conflict, ip: req.ip });
+
+  const result = await WriteService.rename(entryPath, name, conflict);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+  });
+});
+
+/**
+ * Controller for moving an entry into another directory
+ */
+export const moveEntry = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const { source, destination, conflict = 'fail' } = req.body;
+
+  logger.info('Move request', { source, destination, conflict, ip: req.ip });
+
+  const result = await WriteService.move(source, destination, conflict);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+  });
+});
+
+/**
+ * Controller for copying an entry into another directory
+ */
+export const copyEntry = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const { source, destination, conflict = 'fail' } = req.body;
+
+  logger.info('Copy request', { source, destination, conflict, ip: req.ip });
+
+  const result = await WriteService.copy(source, destination, conflict);
+
+  res.status(201).json({
+    success: true,
+    data: result,
+  });
+});
+
+/**
+ * Controller for moving an entry to the trash
+ */
+export const deleteEntry = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const { path: entryPath } = req.query as any;
+
+  logger.info('Delete request', { path: entryPath, ip: req.ip });
+
+  const item = await WriteService.delete(entryPath);
+
+  res.status(200).json({
+    success: true,
+    data: item,
+  });
+});
+
+/**
+ * Controller for uploading files into a directory
+ */
+export const uploadFiles = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const { path: dirPath, conflict = 'fail' } = req.query as any;
+
+  logger.info('Upload request', {
+    path: dirPath,
+    conflict,
+    contentLength: req.get('Content-Length'),
+    ip: req.ip,
+  });
+
+  const result = await UploadService.upload(dirPath, req, req.headers, conflict);
+  recordAuditCounts({ files: result.metadata.totalFiles, bytes: result.metadata.totalBytes });
+
+  res.status(201).json({
+    success: true,
+    data: result,
+  });
+});
+
+/**
+ * Controller for listing the trash
+ */
+export const listTrash = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  logger.info('Trash listing request', { ip: req.ip });
+
+  const result = await WriteService.listTrash();
+  recordAuditCounts({ items: result.metadata.totalItems });
+
+  res.status(200).json({
+    success: true,
+    data: result,
+  });
+});
+
+/**
+ * Controller for restoring a trashed entry
+ */
+export const restoreTrashItem = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const id = req.params.id as string;
+  const { conflict = 'fail' } = req.body;
+
+  logger.info('Restore request', { id, conflict, ip: req.ip });
+
+  const result = await WriteService.restore(id, conflict);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+  });
+});
+
+/**
+ * Controller for permanently deleting one trashed entry, or the whole trash
+ */
+export const purgeTrash = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Check for validation errors
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const id = req.params.id;
+
+  logger.info('Purge request', { id, ip: req.ip });
+
+  const purged = await WriteService.purge(id);
+  recordAuditCounts({ purged });
+
+  res.status(200).json({
+    success: true,
+    data: { purged },
+  });
+});
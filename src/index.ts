@@ -4,8 +4,13 @@ import helmet from 'helmet';
 import compression from 'compression';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
-import { errorHandler } from './middleware/errorHandler';
-import { logger } from './utils/logger';
+import { asyncHandler, errorHandler } from './middleware/errorHandler';
+import { authenticate } from './middleware/auth';
+import { auditAccess } from './middleware/audit';
+import { collectMetrics } from './middleware/metrics';
+import { MetricsService } from './services/metricsService';
+import { logger, redactUrl } from './utils/logger';
+import { rateLimitRejections } from './utils/metrics';
 import directoryRoutes from './routes/directory';
 
 // Load environment variables
@@ -21,11 +26,24 @@ app.use(cors({
   credentials: true,
 }));
 
+// Request metrics
+app.use(collectMetrics);
+
+// Prometheus metrics endpoint, ahead of the rate limiter so scrapes are never rejected
+app.get('/metrics', asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+  res.setHeader('Content-Type', MetricsService.CONTENT_TYPE);
+  res.status(200).send(await MetricsService.getMetrics());
+}));
+
 // Rate limiting
 const limiter = rateLimit({
   windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'), // 15 minutes
   max: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100'), // limit each IP to 100 requests per windowMs
   message: 'Too many requests from this IP, please try again later.',
+  handler: (req, res, next, options): void => {
+    rateLimitRejections.inc();
+    res.status(options.statusCode).send(options.message);
+  },
 });
 app.use(limiter);
 
@@ -36,7 +54,7 @@ app.use(compression());
 
 // Request logging
 app.use((req, res, next) => {
-  logger.info(`${req.method} ${req.originalUrl}`, {
+  logger.info(`${req.method} ${redactUrl(req.originalUrl)}`, {
     ip: req.ip,
     userAgent: req.get('User-Agent'),
   });
@@ -53,7 +71,7 @@ app.get('/health', (req, res) => {
 });
 
 // API routes
-app.use('/api/v1/directory', directoryRoutes);
+app.use('/api/v1/directory', auditAccess, authenticate, directoryRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
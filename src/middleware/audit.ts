@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuditService } from '../services/auditService';
+import { AuditOutcome } from '../types/audit';
+import { RequestContext } from '../types/auth';
+import { requestContext } from '../utils/requestContext';
+
+/**
+ * Runs the request in a fresh request context and writes its audit entry once
+ * the response has ended: who asked, for which operation and paths, how it
+ * ended and how long it took. Must come before `authenticate`, which fills in
+ * the principal.
+ */
+export const auditAccess = (req: Request, res: Response, next: NextFunction): void => {
+  const startedAt = Date.now();
+  // Relative to the API mount point, like the route paths
+  const requestPath = req.path;
+  const context: RequestContext = {
+    principal: null,
+    roots: null,
+    audit: { paths: [], counts: {}, error: null },
+  };
+
+  res.on('close', () => {
+    const { audit, principal } = context;
+    const outcome: AuditOutcome = !res.writableFinished
+      ? 'aborted'
+      : res.statusCode >= 400 ? 'failure' : 'success';
+
+    AuditService.record({
+      timestamp: new Date(startedAt).toISOString(),
+      actor: principal?.id ?? 'anonymous',
+      ip: req.ip,
+      method: req.method,
+      operation: `${req.method} ${req.route?.path ?? requestPath}`,
+      paths: audit.paths,
+      status: res.statusCode,
+      outcome,
+      ...(audit.error && { error: audit.error.message }),
+      ...(audit.error?.code && { code: audit.error.code }),
+      counts: audit.counts,
+      durationMs: Date.now() - startedAt,
+    });
+  });
+
+  requestContext.run(context, next);
+};
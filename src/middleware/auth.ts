@@ -0,0 +1,88 @@
+import { Request, Response, NextFunction } from 'express';
+import { createError, CustomError } from './errorHandler';
+import { AuthService } from '../services/authService';
+import { AuthOperation } from '../types/auth';
+import { logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext';
+
+/**
+ * Finds the caller's credential: an `X-API-Key` header, an
+ * `Authorization: Bearer` header, or, for GET requests that cannot set
+ * headers (EventSource, plain links), an `access_token` query parameter
+ */
+const getCredential = (req: Request): string | undefined => {
+  const apiKey = req.get('X-API-Key');
+  if (apiKey) {
+    return apiKey;
+  }
+
+  const [scheme, token] = (req.get('Authorization') ?? '').split(' ');
+  if (scheme?.toLowerCase() === 'bearer' && token) {
+    return token;
+  }
+
+  const queryToken = req.query.access_token;
+  if ((req.method === 'GET' || req.method === 'HEAD') && typeof queryToken === 'string' && queryToken) {
+    return queryToken;
+  }
+
+  return undefined;
+};
+
+/**
+ * Authenticates every request when AUTH_CONFIG is set, putting the caller in
+ * the request context opened by `auditAccess`. Failures go to the error
+ * handler as 401 (with a `WWW-Authenticate` challenge) or 403.
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction): void => {
+  if (!AuthService.isEnabled()) {
+    next();
+    return;
+  }
+
+  const credential = getCredential(req);
+  if (!credential) {
+    res.setHeader('WWW-Authenticate', 'Bearer realm="directory-listing"');
+    next(createError('Authentication required', 401, 'UNAUTHENTICATED'));
+    return;
+  }
+
+  let principal;
+  try {
+    principal = AuthService.authenticate(credential);
+  } catch (error) {
+    if ((error as CustomError).statusCode === 401) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="directory-listing", error="invalid_token"');
+    }
+    logger.warn('Authentication failed', { ip: req.ip, error: (error as Error).message });
+    next(error);
+    return;
+  }
+
+  const context = getRequestContext();
+  if (!context) {
+    // Without a context the role roots could not be enforced
+    next(createError('Request context is missing', 500));
+    return;
+  }
+
+  context.principal = principal;
+  next();
+};
+
+/**
+ * Lets the request through only if one of the caller's roles grants the
+ * operation, and confines its path checks to those roles' roots
+ */
+export const authorize = (operation: AuthOperation) => (req: Request, res: Response, next: NextFunction): void => {
+  const context = getRequestContext();
+  if (!context?.principal) {
+    next();
+    return;
+  }
+
+  AuthService.getRoots(context.principal, operation).then((roots) => {
+    context.roots = roots;
+    next();
+  }, next);
+};
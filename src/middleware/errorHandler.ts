@@ -1,9 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
-import { logger } from '../utils/logger';
+import { logger, redactUrl } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext';
 
 export interface CustomError extends Error {
   statusCode?: number;
   isOperational?: boolean;
+  code?: string;
 }
 
 export const errorHandler = (
@@ -17,11 +19,17 @@ export const errorHandler = (
   // Log error
   logger.error(`Error ${statusCode}: ${message}`, {
     stack: error.stack,
-    url: req.originalUrl,
+    url: redactUrl(req.originalUrl),
     method: req.method,
     ip: req.ip,
   });
 
+  // Keep the reason for the audit entry written when the response ends
+  const context = getRequestContext();
+  if (context) {
+    context.audit.error = { message, ...(error.code && { code: error.code }) };
+  }
+
   // Don't leak error details in production
   if (process.env.NODE_ENV === 'production' && statusCode === 500) {
     message = 'Internal server error';
@@ -30,16 +38,20 @@ export const errorHandler = (
   res.status(statusCode).json({
     error: {
       message,
+      ...(error.isOperational && error.code && { code: error.code }),
       ...(process.env.NODE_ENV === 'development' && { stack: error.stack }),
     },
     timestamp: new Date().toISOString(),
   });
 };
 
-export const createError = (message: string, statusCode: number = 500): CustomError => {
+export const createError = (message: string, statusCode: number = 500, code?: string): CustomError => {
   const error: CustomError = new Error(message);
   error.statusCode = statusCode;
   error.isOperational = true;
+  if (code) {
+    error.code = code;
+  }
   return error;
 };
 
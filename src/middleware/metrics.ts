@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { httpRequestDuration, httpRequestsTotal } from '../utils/metrics';
+
+/**
+ * Counts every request and records its latency once the response has ended,
+ * including streams the client closed early. Requests that matched no route
+ * are labelled `unmatched`.
+ */
+export const collectMetrics = (req: Request, res: Response, next: NextFunction): void => {
+  const startedAt = process.hrtime.bigint();
+
+  res.on('close', () => {
+    const labels = {
+      method: req.method,
+      route: req.route?.path ?? 'unmatched',
+      status: String(res.statusCode),
+    };
+
+    httpRequestsTotal.inc(labels);
+    httpRequestDuration.observe(labels, Number(process.hrtime.bigint() - startedAt) / 1e9);
+  });
+
+  next();
+};
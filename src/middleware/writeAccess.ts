@@ -0,0 +1,16 @@
+import { Request, Response, NextFunction } from 'express';
+import { createError } from './errorHandler';
+import { WriteService } from '../services/writeService';
+
+/**
+ * Rejects write requests unless WRITE_ENABLED is set, so a read-only
+ * deployment cannot modify the filesystem
+ */
+export const requireWriteAccess = (req: Request, res: Response, next: NextFunction): void => {
+  if (!WriteService.ENABLED) {
+    next(createError('Write operations are disabled on this server', 403, 'WRITE_DISABLED'));
+    return;
+  }
+
+  next();
+};
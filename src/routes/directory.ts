@@ -2,17 +2,68 @@ import { Router } from 'express';
 import {
   listDirectory,
   getDirectoryMetadata,
+  getDirectoryTree,
+  watchDirectory,
+  getDiskUsage,
   getApiInfo,
   validateDirectoryListing,
   validateDirectoryMetadata,
+  validateDirectoryTree,
+  validateDirectoryWatch,
+  validateDiskUsage,
 } from '../controllers/directoryController';
+import {
+  searchByName,
+  searchContent,
+  findDuplicates,
+  validateNameSearch,
+  validateContentSearch,
+  validateDuplicateSearch,
+} from '../controllers/searchController';
+import {
+  downloadFile,
+  previewFile,
+  getFileChecksum,
+  getChecksumManifest,
+  verifyChecksumManifest,
+  downloadArchive,
+  downloadSelectionArchive,
+  validateFileDownload,
+  validateFilePreview,
+  validateFileChecksum,
+  validateChecksumManifest,
+  validateManifestVerification,
+  validateArchiveDownload,
+  validateSelectionArchiveDownload,
+} from '../controllers/fileController';
+import {
+  createDirectory,
+  renameEntry,
+  moveEntry,
+  copyEntry,
+  deleteEntry,
+  uploadFiles,
+  listTrash,
+  restoreTrashItem,
+  purgeTrash,
+  validateCreateDirectory,
+  validateRename,
+  validateTransfer,
+  validateDelete,
+  validateUpload,
+  validateRestore,
+  validatePurge,
+} from '../controllers/writeController';
+import { queryAuditLog, validateAuditQuery } from '../controllers/auditController';
+import { authorize } from '../middleware/auth';
+import { requireWriteAccess } from '../middleware/writeAccess';
 
 const router = Router();
 
 /**
  * @route GET /api/v1/directory
  * @desc Get API information
- * @access Public
+ * @access Authenticated
  */
 router.get('/', getApiInfo);
 
@@ -23,18 +74,285 @@ router.get('/', getApiInfo);
  * @param {number} [page=1] - Page number for pagination
  * @param {number} [limit=100] - Items per page (max 1000)
  * @param {boolean} [includeHidden=false] - Include hidden files
- * @param {string} [sortBy=name] - Sort by: name, size, modified, type
- * @param {string} [sortOrder=asc] - Sort order: asc, desc
- * @access Public
+ * @param {string} [sortBy=name] - Comma-separated keys: name, size, modified, created, type, extension, owner
+ * @param {string} [sortOrder=asc] - asc or desc, or one per sort key
+ * @param {boolean} [natural=true] - Numeric-aware name ordering (file2 before file10)
+ * @param {boolean} [caseSensitive=false] - Distinguish upper and lower case when comparing names
+ * @param {boolean} [directoriesFirst=false] - List directories before other entries
+ * @access Roles with the list operation
  */
-router.get('/list', validateDirectoryListing, listDirectory);
+router.get('/list', authorize('list'), validateDirectoryListing, listDirectory);
 
 /**
  * @route GET /api/v1/directory/metadata
  * @desc Get directory metadata
  * @param {string} path - Directory path
- * @access Public
+ * @access Roles with the list operation
+ */
+router.get('/metadata', authorize('list'), validateDirectoryMetadata, getDirectoryMetadata);
+
+/**
+ * @route GET /api/v1/directory/tree
+ * @desc Get a nested directory tree with child counts and aggregated sizes
+ * @param {string} path - Root directory path
+ * @param {number} [maxDepth=3] - Maximum depth to expand (max 20)
+ * @param {number} [maxNodes=1000] - Maximum number of nodes to return (max 10000)
+ * @param {boolean} [includeHidden=false] - Include hidden files
+ * @access Roles with the list operation
+ */
+router.get('/tree', authorize('list'), validateDirectoryTree, getDirectoryTree);
+
+/**
+ * @route GET /api/v1/directory/watch
+ * @desc Stream add, change and delete events for a directory as Server-Sent Events
+ * @param {string} path - Directory path to watch
+ * @param {boolean} [includeHidden=false] - Include hidden files
+ * @param {boolean} [followSymlinks=false] - Describe symbolic links by their targets
+ * @access Roles with the list operation
+ */
+router.get('/watch', authorize('list'), validateDirectoryWatch, watchDirectory);
+
+/**
+ * @route GET /api/v1/directory/usage
+ * @desc Compute recursive disk usage, optionally streaming progress as NDJSON
+ * @param {string} path - Directory path
+ * @param {number} [maxDepth] - Maximum depth to descend (unlimited by default, max 1000)
+ * @param {number} [timeoutMs=60000] - Stop scanning after this many milliseconds
+ * @param {number} [top=10] - Number of largest directories and files to return (max 100)
+ * @param {boolean} [includeHidden=true] - Include hidden files
+ * @param {boolean} [stream=false] - Stream progress records followed by the result
+ * @access Roles with the list operation
+ */
+router.get('/usage', authorize('list'), validateDiskUsage, getDiskUsage);
+
+/**
+ * @route GET /api/v1/directory/search
+ * @desc Recursively search files and directories by name
+ * @param {string} path - Base directory path
+ * @param {string} [pattern] - Glob pattern, e.g. *.log or logs/**
+ * @param {string} [regex] - Regular expression matched against names (instead of pattern)
+ * @param {boolean} [caseSensitive=false] - Case-sensitive matching
+ * @param {string} [type] - Only return: file, directory
+ * @param {string} [extensions] - Comma-separated extension list
+ * @param {number} [minSize] - Minimum size in bytes
+ * @param {number} [maxSize] - Maximum size in bytes
+ * @param {string} [modifiedAfter] - ISO 8601 lower bound for the modified date
+ * @param {string} [modifiedBefore] - ISO 8601 upper bound for the modified date
+ * @param {number} [maxDepth=10] - Maximum depth to descend (max 50)
+ * @param {number} [maxResults=1000] - Stop after this many matches (max 10000)
+ * @param {boolean} [includeHidden=false] - Include hidden files
+ * @param {number} [page=1] - Page number for pagination
+ * @param {number} [limit=100] - Items per page (max 1000)
+ * @access Roles with the list operation
+ */
+router.get('/search', authorize('list'), validateNameSearch, searchByName);
+
+/**
+ * @route GET /api/v1/directory/search/content
+ * @desc Search the contents of text files recursively (grep)
+ * @param {string} path - Base directory or file path
+ * @param {string} query - Text to search for
+ * @param {boolean} [regex=false] - Treat query as a regular expression
+ * @param {boolean} [caseSensitive=false] - Case-sensitive matching
+ * @param {string} [filePattern] - Only search files matching this glob
+ * @param {number} [maxFileSize=10485760] - Skip files larger than this (bytes)
+ * @param {number} [maxMatches=500] - Stop after this many matching lines (max 10000)
+ * @param {number} [timeoutMs=10000] - Time budget for the search (max 60000)
+ * @param {number} [maxDepth=10] - Maximum depth to descend (max 50)
+ * @param {boolean} [includeHidden=false] - Include hidden files
+ * @access Roles with the read operation
+ */
+router.get('/search/content', authorize('read'), validateContentSearch, searchContent);
+
+/**
+ * @route GET /api/v1/directory/search/duplicates
+ * @desc Find files with identical content (size, then partial hash, then SHA-256)
+ * @param {string} path - Base directory path
+ * @param {number} [minSize=1] - Ignore files smaller than this (bytes)
+ * @param {string} [extensions] - Comma-separated extension list
+ * @param {number} [maxDepth=50] - Maximum depth to descend (max 50)
+ * @param {number} [maxGroups=100] - Number of duplicate groups to return (max 1000)
+ * @param {number} [timeoutMs=300000] - Time budget for the search
+ * @param {boolean} [includeHidden=false] - Include hidden files
+ * @param {boolean} [stream=false] - Stream progress records followed by the result
+ * @access Roles with the list operation
+ */
+router.get('/search/duplicates', authorize('list'), validateDuplicateSearch, findDuplicates);
+
+/**
+ * @route GET /api/v1/directory/file
+ * @desc Stream file contents, supports Range requests (206 Partial Content)
+ * @param {string} path - File path
+ * @param {boolean} [download=false] - Send as an attachment
+ * @access Roles with the read operation
+ */
+router.get('/file', authorize('read'), validateFileDownload, downloadFile);
+
+/**
+ * @route GET /api/v1/directory/preview
+ * @desc Preview a window of lines of a text file, with its file info
+ * @param {string} path - File path
+ * @param {number} [startLine=1] - First line to return (1-based)
+ * @param {number} [endLine=startLine+99] - Last line to return
+ * @param {number} [tail] - Return the last N lines instead (max 5000)
+ * @param {number} [maxBytes=262144] - Maximum response text size in bytes
+ * @access Roles with the read operation
+ */
+router.get('/preview', authorize('read'), validateFilePreview, previewFile);
+
+/**
+ * @route GET /api/v1/directory/checksum
+ * @desc Compute checksums of a file in a single read
+ * @param {string} path - File path
+ * @param {string} [algorithms=sha256] - Comma-separated list of md5, sha1, sha256, sha512
+ * @access Roles with the read operation
+ */
+router.get('/checksum', authorize('read'), validateFileChecksum, getFileChecksum);
+
+/**
+ * @route GET /api/v1/directory/checksum/manifest
+ * @desc Stream a sha256sum-style manifest of every file below a directory
+ * @param {string} path - Directory path
+ * @param {string} [algorithm=sha256] - md5, sha1, sha256 or sha512
+ * @param {boolean} [includeHidden=true] - Include hidden files
+ * @access Roles with the read operation
+ */
+router.get('/checksum/manifest', authorize('read'), validateChecksumManifest, getChecksumManifest);
+
+/**
+ * @route POST /api/v1/directory/checksum/verify
+ * @desc Verify a directory against a manifest (JSON body)
+ * @param {string} path - Directory path
+ * @param {string} manifest - Manifest text, as produced by sha256sum or /checksum/manifest
+ * @param {string} [algorithm] - Expected algorithm, inferred from the digest length if omitted
+ * @param {boolean} [includeHidden=true] - Include hidden files when looking for extra files
+ * @access Roles with the read operation
+ */
+router.post('/checksum/verify', authorize('read'), validateManifestVerification, verifyChecksumManifest);
+
+/**
+ * @route GET /api/v1/directory/archive
+ * @desc Stream a directory as a zip or tar.gz archive
+ * @param {string} path - Directory (or file) path
+ * @param {string} [format=zip] - zip or tar.gz
+ * @param {boolean} [includeHidden=false] - Include hidden files
+ * @param {number} [maxBytes] - Reject archives with more file content than this (capped by ARCHIVE_DOWNLOAD_MAX_BYTES)
+ * @param {number} [maxFiles] - Reject archives with more files than this (capped by ARCHIVE_DOWNLOAD_MAX_FILES)
+ * @access Roles with the read operation
+ */
+router.get('/archive', authorize('read'), validateArchiveDownload, downloadArchive);
+
+/**
+ * @route POST /api/v1/directory/archive
+ * @desc Stream a selection of files and directories as one archive (JSON body)
+ * @param {string[]} paths - Paths to include, each as a top-level entry
+ * @param {string} [format=zip] - zip or tar.gz
+ * @param {boolean} [includeHidden=false] - Include hidden files below selected directories
+ * @param {number} [maxBytes] - Reject archives with more file content than this
+ * @param {number} [maxFiles] - Reject archives with more files than this
+ * @access Roles with the read operation
+ */
+router.post('/archive', authorize('read'), validateSelectionArchiveDownload, downloadSelectionArchive);
+
+/**
+ * @route POST /api/v1/directory/mkdir
+ * @desc Create a directory (JSON body, requires WRITE_ENABLED)
+ * @param {string} path - Directory to create
+ * @param {boolean} [parents=false] - Create missing parent directories
+ * @param {string} [conflict=fail] - fail, overwrite or rename when the path exists
+ * @access Roles with the write operation
+ */
+router.post('/mkdir', authorize('write'), requireWriteAccess, validateCreateDirectory, createDirectory);
+
+/**
+ * @route PATCH /api/v1/directory/rename
+ * @desc Rename an entry within its directory (JSON body, requires WRITE_ENABLED)
+ * @param {string} path - Entry to rename
+ * @param {string} name - New name, without a directory
+ * @param {string} [conflict=fail] - fail, overwrite or rename when the name is taken
+ * @access Roles with the write operation
+ */
+router.patch('/rename', authorize('write'), requireWriteAccess, validateRename, renameEntry);
+
+/**
+ * @route POST /api/v1/directory/move
+ * @desc Move an entry into another directory (JSON body, requires WRITE_ENABLED)
+ * @param {string} source - Entry to move
+ * @param {string} destination - Directory to move it into
+ * @param {string} [conflict=fail] - fail, overwrite or rename when the name is taken
+ * @access Roles with the write operation
+ */
+router.post('/move', authorize('write'), requireWriteAccess, validateTransfer, moveEntry);
+
+/**
+ * @route POST /api/v1/directory/copy
+ * @desc Copy an entry, recursively for directories (JSON body, requires WRITE_ENABLED)
+ * @param {string} source - Entry to copy
+ * @param {string} destination - Directory to copy it into
+ * @param {string} [conflict=fail] - fail, overwrite or rename when the name is taken
+ * @access Roles with the write operation
+ */
+router.post('/copy', authorize('write'), requireWriteAccess, validateTransfer, copyEntry);
+
+/**
+ * @route DELETE /api/v1/directory/entry
+ * @desc Move an entry to the trash (requires WRITE_ENABLED)
+ * @param {string} path - Entry to delete
+ * @access Roles with the write operation
+ */
+router.delete('/entry', authorize('write'), requireWriteAccess, validateDelete, deleteEntry);
+
+/**
+ * @route POST /api/v1/directory/upload
+ * @desc Upload files into a directory (multipart/form-data, requires WRITE_ENABLED)
+ * @param {string} path - Directory to upload into
+ * @param {string} [conflict=fail] - fail, overwrite or rename when a file name is taken
+ * @access Roles with the write operation
+ */
+router.post('/upload', authorize('write'), requireWriteAccess, validateUpload, uploadFiles);
+
+/**
+ * @route GET /api/v1/directory/trash
+ * @desc List deleted entries (requires WRITE_ENABLED)
+ * @access Roles with the write operation
+ */
+router.get('/trash', authorize('write'), requireWriteAccess, listTrash);
+
+/**
+ * @route POST /api/v1/directory/trash/:id/restore
+ * @desc Move a deleted entry back to where it was (requires WRITE_ENABLED)
+ * @param {string} id - Trash item id
+ * @param {string} [conflict=fail] - fail, overwrite or rename when the original path is taken
+ * @access Roles with the write operation
+ */
+router.post('/trash/:id/restore', authorize('write'), requireWriteAccess, validateRestore, restoreTrashItem);
+
+/**
+ * @route DELETE /api/v1/directory/trash/:id
+ * @desc Permanently delete one entry from the trash (requires WRITE_ENABLED)
+ * @param {string} id - Trash item id
+ * @access Roles with the write operation
+ */
+router.delete('/trash/:id', authorize('write'), requireWriteAccess, validatePurge, purgeTrash);
+
+/**
+ * @route DELETE /api/v1/directory/trash
+ * @desc Empty the trash (requires WRITE_ENABLED)
+ * @access Roles with the write operation
+ */
+router.delete('/trash', authorize('write'), requireWriteAccess, purgeTrash);
+
+/**
+ * @route GET /api/v1/directory/audit
+ * @desc Query the audit log of filesystem accesses, newest first
+ * @param {string} [pathPrefix] - Only entries with a path inside this directory
+ * @param {string} [actor] - Only entries of this principal (e.g. key:backup-job, jwt:alice, anonymous)
+ * @param {string} [operation] - Only entries of this method and route (e.g. GET /list)
+ * @param {string} [from] - Only entries at or after this ISO 8601 time
+ * @param {string} [to] - Only entries at or before this ISO 8601 time
+ * @param {number} [limit=100] - Maximum number of entries (max AUDIT_QUERY_MAX_RESULTS)
+ * @access Roles with the audit operation
  */
-router.get('/metadata', validateDirectoryMetadata, getDirectoryMetadata);
+router.get('/audit', authorize('audit'), validateAuditQuery, queryAuditLog);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,123 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { finished } from 'stream/promises';
+import zlib from 'zlib';
+import tar from 'tar-stream';
+import { ArchiveExportOptions } from '../../types/directory';
+
+// Roots are read when the services load, so they are set up first
+const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'export-')));
+const root = path.join(base, 'root');
+const outside = path.join(base, 'outside');
+
+process.env.ALLOWED_ROOTS = root;
+process.env.DENIED_PATHS = '**/*.secret';
+
+const options: ArchiveExportOptions = { includeHidden: false, maxBytes: 1024 * 1024, maxFiles: 100 };
+
+/**
+ * Reads back the entries of a tar.gz archive
+ */
+const readTarGz = async (archive: Buffer): Promise<Array<{ name: string; type: string; linkname: string | null; content: string }>> => {
+  const extract = tar.extract();
+  const entries: Array<{ name: string; type: string; linkname: string | null; content: string }> = [];
+  extract.end(zlib.gunzipSync(archive));
+
+  for await (const entry of extract) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of entry) {
+      chunks.push(chunk as Buffer);
+    }
+    entries.push({
+      name: entry.header.name,
+      type: entry.header.type ?? 'file',
+      linkname: entry.header.linkname ?? null,
+      content: Buffer.concat(chunks).toString('utf8'),
+    });
+  }
+
+  return entries;
+};
+
+describe('ArchiveExportService', () => {
+  let ArchiveExportService: typeof import('../archiveExportService').ArchiveExportService;
+
+  beforeAll(async () => {
+    await fs.promises.mkdir(path.join(root, 'project', 'src'), { recursive: true });
+    await fs.promises.mkdir(path.join(root, 'other', 'project'), { recursive: true });
+    await fs.promises.mkdir(outside);
+    await fs.promises.writeFile(path.join(root, 'project', 'src', 'main.ts'), 'main');
+    await fs.promises.writeFile(path.join(root, 'project', 'keys.secret'), 'secret');
+    await fs.promises.writeFile(path.join(root, 'project', '.env'), 'hidden');
+    await fs.promises.writeFile(path.join(outside, 'private.txt'), 'private');
+    await fs.promises.symlink(path.join(outside, 'private.txt'), path.join(root, 'project', 'private.txt'));
+    await fs.promises.symlink(outside, path.join(root, 'escape'));
+
+    ({ ArchiveExportService } = await import('../archiveExportService'));
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(base, { recursive: true, force: true });
+  });
+
+  describe('plan', () => {
+    it('rejects selections outside the roots, through symlinks or with traversal', async () => {
+      await expect(ArchiveExportService.plan([outside], options))
+        .rejects.toMatchObject({ statusCode: 403, code: 'OUTSIDE_ALLOWED_ROOTS' });
+      await expect(ArchiveExportService.plan([path.join(root, 'escape')], options))
+        .rejects.toMatchObject({ statusCode: 403, code: 'SYMLINK_ESCAPE' });
+      await expect(ArchiveExportService.plan([path.join(root, 'project'), `${root}/../outside`], options))
+        .rejects.toMatchObject({ statusCode: 403, code: 'PATH_TRAVERSAL' });
+    });
+
+    it('enforces the file and byte caps before packing', async () => {
+      await expect(ArchiveExportService.plan([path.join(root, 'project')], { ...options, maxFiles: 0 }))
+        .rejects.toMatchObject({ statusCode: 413, code: 'ARCHIVE_TOO_LARGE' });
+      await expect(ArchiveExportService.plan([path.join(root, 'project')], { ...options, maxBytes: 3 }))
+        .rejects.toMatchObject({ statusCode: 413, code: 'ARCHIVE_TOO_LARGE' });
+    });
+
+    it('leaves out denied and hidden entries and names selections uniquely', async () => {
+      const plan = await ArchiveExportService.plan([path.join(root, 'project'), path.join(root, 'other', 'project')], options);
+
+      expect(plan.entries.map(entry => entry.name).sort()).toEqual([
+        'project',
+        'project (1)',
+        'project/private.txt',
+        'project/src',
+        'project/src/main.ts',
+      ]);
+      expect(plan.files).toBe(1);
+    });
+  });
+
+  describe('pack', () => {
+    it('stores symbolic links as links without their targets', async () => {
+      const plan = await ArchiveExportService.plan([path.join(root, 'project')], options);
+      const output = new PassThrough();
+      const chunks: Buffer[] = [];
+      output.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+      const summary = await ArchiveExportService.pack(plan, 'tar.gz', output);
+      await finished(output);
+      expect(summary).toMatchObject({ files: 1, directories: 2, skipped: [] });
+
+      const entries = await readTarGz(Buffer.concat(chunks));
+      expect(entries.find(entry => entry.name === 'project/private.txt'))
+        .toEqual({ name: 'project/private.txt', type: 'symlink', linkname: path.join(outside, 'private.txt'), content: '' });
+      expect(entries.find(entry => entry.name === 'project/src/main.ts')?.content).toBe('main');
+      expect(entries.some(entry => entry.content.includes('private'))).toBe(false);
+    });
+
+    it('stops when the download is cancelled', async () => {
+      const plan = await ArchiveExportService.plan([path.join(root, 'project')], options);
+      const abort = new AbortController();
+      abort.abort();
+
+      await expect(ArchiveExportService.pack(plan, 'zip', new PassThrough(), abort.signal))
+        .rejects.toMatchObject({ statusCode: 499 });
+    });
+  });
+});
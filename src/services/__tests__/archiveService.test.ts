@@ -0,0 +1,122 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+import tar from 'tar-stream';
+
+// Roots and limits are read when the services load, so they are set up first
+const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'archive-')));
+const root = path.join(base, 'root');
+const outside = path.join(base, 'outside');
+
+process.env.ALLOWED_ROOTS = root;
+process.env.ARCHIVE_MAX_ENTRIES = '5';
+
+interface TarEntry {
+  name: string;
+  content?: string;
+  type?: 'file' | 'directory' | 'symlink';
+  linkname?: string;
+}
+
+/**
+ * Writes a tar (or tar.gz) archive with the given entries
+ */
+const createTar = async (file: string, entries: TarEntry[], gzip: boolean = false): Promise<void> => {
+  const pack = tar.pack();
+  for (const entry of entries) {
+    const header = { name: entry.name, type: entry.type ?? 'file', ...(entry.linkname ? { linkname: entry.linkname } : {}) };
+    pack.entry(header, entry.content ?? '');
+  }
+  pack.finalize();
+
+  await (gzip
+    ? pipeline(pack, zlib.createGzip(), fs.createWriteStream(file))
+    : pipeline(pack, fs.createWriteStream(file)));
+};
+
+const readAll = async (stream: Readable): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+describe('ArchiveService', () => {
+  let ArchiveService: typeof import('../archiveService').ArchiveService;
+  const bundle = path.join(root, 'bundle.tar.gz');
+
+  beforeAll(async () => {
+    await fs.promises.mkdir(root);
+    await fs.promises.mkdir(outside);
+    await createTar(bundle, [
+      { name: 'docs/readme.txt', content: 'read me' },
+      { name: '../../escape.txt', content: 'escaped' },
+      { name: 'docs/passwd', type: 'symlink', linkname: '/etc/passwd' },
+      { name: 'empty', type: 'directory' },
+    ], true);
+    await createTar(path.join(outside, 'outside.tar'), [{ name: 'a.txt', content: 'a' }]);
+    await createTar(path.join(root, 'large.tar'), ['a', 'b', 'c', 'd', 'e', 'f'].map(name => ({ name, content: name })));
+    await fs.promises.writeFile(path.join(root, 'broken.tar.gz'), 'not an archive');
+
+    ({ ArchiveService } = await import('../archiveService'));
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(base, { recursive: true, force: true });
+  });
+
+  describe('parseArchivePath', () => {
+    it('keeps inner paths inside the archive', () => {
+      expect(ArchiveService.parseArchivePath(`${bundle}!/docs/../../../etc/passwd`))
+        .toEqual({ archivePath: bundle, innerPath: 'etc/passwd', format: 'tar.gz' });
+      expect(ArchiveService.parseArchivePath(path.join(root, 'plain.txt'))).toBeNull();
+    });
+  });
+
+  describe('listDirectory', () => {
+    it('lists entries with traversal segments stripped and without links', async () => {
+      const top = await ArchiveService.listDirectory(`${bundle}!/`);
+      expect(top.items.map(item => item.name).sort()).toEqual(['docs', 'empty', 'escape.txt']);
+
+      const docs = await ArchiveService.listDirectory(`${bundle}!/docs`);
+      expect(docs.items.map(item => item.name)).toEqual(['readme.txt']);
+      expect(docs.items[0]?.path).toBe(`${bundle}!/docs/readme.txt`);
+    });
+
+    it('rejects missing paths and files', async () => {
+      await expect(ArchiveService.listDirectory(`${bundle}!/missing`)).rejects.toMatchObject({ statusCode: 404 });
+      await expect(ArchiveService.listDirectory(`${bundle}!/docs/readme.txt`)).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('applies the path checks to the archive itself', async () => {
+      await expect(ArchiveService.listDirectory(`${path.join(outside, 'outside.tar')}!/`))
+        .rejects.toMatchObject({ statusCode: 403, code: 'OUTSIDE_ALLOWED_ROOTS' });
+      await expect(ArchiveService.listDirectory(`${root}/../outside/outside.tar!/`))
+        .rejects.toMatchObject({ statusCode: 403, code: 'PATH_TRAVERSAL' });
+    });
+
+    it('rejects archives with too many entries and unreadable archives', async () => {
+      await expect(ArchiveService.listDirectory(`${path.join(root, 'large.tar')}!/`))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Archive has too many entries to browse' });
+      await expect(ArchiveService.listDirectory(`${path.join(root, 'broken.tar.gz')}!/`))
+        .rejects.toMatchObject({ statusCode: 422 });
+    });
+  });
+
+  describe('openEntryStream', () => {
+    it('extracts a single file entry', async () => {
+      await expect(readAll(await ArchiveService.openEntryStream(`${bundle}!/docs/readme.txt`))).resolves.toBe('read me');
+    });
+
+    it('does not extract links, directories or missing entries', async () => {
+      await expect(ArchiveService.openEntryStream(`${bundle}!/docs/passwd`)).rejects.toMatchObject({ statusCode: 404 });
+      await expect(ArchiveService.openEntryStream(`${bundle}!/empty`)).rejects.toMatchObject({ statusCode: 404 });
+      await expect(ArchiveService.openEntryStream(`${bundle}!/missing.txt`)).rejects.toMatchObject({ statusCode: 404 });
+      await expect(ArchiveService.openEntryStream(`${bundle}!/`)).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+});
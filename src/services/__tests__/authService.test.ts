@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { requestContext } from '../../utils/requestContext';
+import { Principal, RequestContext } from '../../types/auth';
+
+// The auth config, roots and trash are read when the services load, so they are set up first
+const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'auth-')));
+const root = path.join(base, 'root');
+const shared = path.join(root, 'shared');
+const team = path.join(root, 'team');
+const mount = path.join(base, 'mount');
+const secret = 'test-secret';
+
+const sha256 = (value: string): string => crypto.createHash('sha256').update(value).digest('hex');
+
+fs.mkdirSync(shared, { recursive: true });
+fs.mkdirSync(team);
+fs.symlinkSync(shared, mount);
+fs.writeFileSync(path.join(base, 'auth.json'), JSON.stringify({
+  roles: {
+    admin: { operations: ['list', 'read', 'write', 'audit'] },
+    reader: { operations: ['list', 'read'], roots: [mount] },
+    team: { operations: ['list', 'read', 'write'], roots: [team] },
+  },
+  apiKeys: [
+    { id: 'admin', keySha256: sha256('admin-key'), roles: ['admin'] },
+    { id: 'reader', keySha256: sha256('reader-key'), roles: ['reader'] },
+    { id: 'retired', keySha256: sha256('retired-key'), roles: [] },
+  ],
+}));
+
+process.env.AUTH_CONFIG = path.join(base, 'auth.json');
+process.env.JWT_SECRET = secret;
+process.env.ALLOWED_ROOTS = `${root},${mount}`;
+process.env.TRASH_DIR = path.join(base, 'trash');
+
+describe('AuthService', () => {
+  let AuthService: typeof import('../authService').AuthService;
+  let PathGuard: typeof import('../../utils/pathGuard').PathGuard;
+  let WriteService: typeof import('../writeService').WriteService;
+
+  const principal = (...roles: string[]): Principal => ({ id: 'test', type: 'apiKey', roles });
+
+  const createContext = async (caller: Principal, operation: 'list' | 'write'): Promise<RequestContext> => ({
+    principal: caller,
+    roots: await AuthService.getRoots(caller, operation),
+    audit: { paths: [], counts: {}, error: null },
+  });
+
+  beforeAll(async () => {
+    ({ AuthService } = await import('../authService'));
+    ({ PathGuard } = await import('../../utils/pathGuard'));
+    ({ WriteService } = await import('../writeService'));
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(base, { recursive: true, force: true });
+  });
+
+  describe('authenticate', () => {
+    it('identifies API keys by their hash', () => {
+      expect(AuthService.authenticate('reader-key')).toEqual({ id: 'key:reader', type: 'apiKey', roles: ['reader'] });
+      expect(() => AuthService.authenticate('unknown-key'))
+        .toThrow(expect.objectContaining({ statusCode: 401, code: 'INVALID_CREDENTIALS' }));
+    });
+
+    it('rejects credentials without a known role', () => {
+      expect(() => AuthService.authenticate('retired-key'))
+        .toThrow(expect.objectContaining({ statusCode: 403, code: 'NO_ROLE' }));
+      expect(() => AuthService.authenticate(jwt.sign({ roles: ['unknown'] }, secret)))
+        .toThrow(expect.objectContaining({ statusCode: 403, code: 'NO_ROLE' }));
+    });
+
+    it('accepts valid tokens and rejects expired, forged and unsigned ones', () => {
+      expect(AuthService.authenticate(jwt.sign({ sub: 'ann', roles: 'reader team' }, secret)))
+        .toEqual({ id: 'jwt:ann', type: 'jwt', roles: ['reader', 'team'] });
+
+      expect(() => AuthService.authenticate(jwt.sign({ roles: ['admin'], exp: Math.floor(Date.now() / 1000) - 60 }, secret)))
+        .toThrow(expect.objectContaining({ statusCode: 401, code: 'TOKEN_EXPIRED' }));
+      expect(() => AuthService.authenticate(jwt.sign({ roles: ['admin'] }, 'other-secret')))
+        .toThrow(expect.objectContaining({ statusCode: 401, code: 'INVALID_CREDENTIALS' }));
+      expect(() => AuthService.authenticate(jwt.sign({ roles: ['admin'] }, '', { algorithm: 'none' })))
+        .toThrow(expect.objectContaining({ statusCode: 401, code: 'INVALID_CREDENTIALS' }));
+    });
+  });
+
+  describe('getRoots', () => {
+    it('rejects operations no role grants', async () => {
+      await expect(AuthService.getRoots(principal('reader'), 'write'))
+        .rejects.toMatchObject({ statusCode: 403, code: 'OPERATION_NOT_PERMITTED' });
+    });
+
+    it('combines the roots of every granting role, unless one is unrestricted', async () => {
+      await expect(AuthService.getRoots(principal('reader', 'team'), 'list')).resolves.toEqual([mount, shared, team]);
+      await expect(AuthService.getRoots(principal('reader', 'team'), 'write')).resolves.toEqual([team]);
+      await expect(AuthService.getRoots(principal('reader', 'admin'), 'list')).resolves.toBeNull();
+    });
+  });
+
+  describe('role scoping', () => {
+    it('confines path checks to the role roots, including symlinked ones', async () => {
+      const context = await createContext(principal('reader'), 'list');
+
+      await expect(requestContext.run(context, () => PathGuard.resolve(mount))).resolves.toBe(shared);
+      await expect(requestContext.run(context, () => PathGuard.resolve(team)))
+        .rejects.toMatchObject({ statusCode: 403, code: 'OUTSIDE_ALLOWED_ROOTS' });
+    });
+
+    it('hides trashed entries deleted outside the caller\'s roots', async () => {
+      await fs.promises.writeFile(path.join(shared, 'notes.txt'), 'notes');
+      const item = await requestContext.run(await createContext(principal('admin'), 'write'), () =>
+        WriteService.delete(path.join(shared, 'notes.txt')));
+
+      const context = await createContext(principal('team'), 'write');
+      await expect(requestContext.run(context, () => WriteService.listTrash()))
+        .resolves.toMatchObject({ items: [], metadata: { totalItems: 0 } });
+      await expect(requestContext.run(context, () => WriteService.restore(item.id, 'fail')))
+        .rejects.toMatchObject({ statusCode: 404, code: 'TRASH_ITEM_NOT_FOUND' });
+      await expect(requestContext.run(context, () => WriteService.purge(item.id)))
+        .rejects.toMatchObject({ statusCode: 404, code: 'TRASH_ITEM_NOT_FOUND' });
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ChecksumService } from '../checksumService';
+
+const sha256 = (content: string): string => crypto.createHash('sha256').update(content).digest('hex');
+
+describe('ChecksumService', () => {
+  let base: string;
+
+  beforeAll(async () => {
+    base = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'checksum-')));
+    await fs.promises.mkdir(path.join(base, 'sub'));
+    await fs.promises.writeFile(path.join(base, 'a.txt'), 'alpha');
+    await fs.promises.writeFile(path.join(base, 'sub', 'b.txt'), 'beta');
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(base, { recursive: true, force: true });
+  });
+
+  describe('createManifest', () => {
+    it('yields one sha256sum line per file', async () => {
+      const lines: string[] = [];
+      for await (const line of await ChecksumService.createManifest(base, 'sha256', true)) {
+        lines.push(line);
+      }
+
+      expect(lines.sort()).toEqual([`${sha256('alpha')}  a.txt\n`, `${sha256('beta')}  sub/b.txt\n`]);
+    });
+
+    it('lists files it cannot read in trailing comments instead of stopping', async () => {
+      const original = fs.createReadStream;
+      const createReadStream = jest.spyOn(fs, 'createReadStream').mockImplementation(((filePath: fs.PathLike, options) =>
+        (String(filePath).endsWith('a.txt') ? original(path.join(base, 'missing.txt'), options) : original(filePath, options))
+      ) as typeof fs.createReadStream);
+
+      const lines: string[] = [];
+      try {
+        for await (const line of await ChecksumService.createManifest(base, 'sha256', true)) {
+          lines.push(line);
+        }
+      } finally {
+        createReadStream.mockRestore();
+      }
+
+      expect(lines).toEqual([`${sha256('beta')}  sub/b.txt\n`, expect.stringMatching(/^# Could not read a\.txt: ENOENT.*\n$/)]);
+      const result = await ChecksumService.verifyManifest(base, lines.join(''), true);
+      expect(result.matched).toEqual(['sub/b.txt']);
+    });
+
+    it('rejects files', async () => {
+      await expect(ChecksumService.createManifest(path.join(base, 'a.txt'), 'sha256', true))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('stops hashing once aborted', async () => {
+      const abort = new AbortController();
+      abort.abort();
+
+      const lines = await ChecksumService.createManifest(base, 'sha256', true, abort.signal);
+      await expect(lines.next()).resolves.toEqual({ done: true, value: undefined });
+    });
+  });
+
+  describe('verifyManifest', () => {
+    it('reports matched, mismatched, missing and extra files', async () => {
+      const manifest = [`${sha256('alpha')}  a.txt`, `${sha256('gamma')}  sub/b.txt`, `${sha256('x')}  gone.txt`].join('\n');
+      await fs.promises.writeFile(path.join(base, 'extra.txt'), 'extra');
+
+      try {
+        const result = await ChecksumService.verifyManifest(base, manifest, true);
+        expect(result.algorithm).toBe('sha256');
+        expect(result.matched).toEqual(['a.txt']);
+        expect(result.mismatched).toEqual([{ path: 'sub/b.txt', expected: sha256('gamma'), actual: sha256('beta') }]);
+        expect(result.missing).toEqual(['gone.txt']);
+        expect(result.extra).toEqual(['extra.txt']);
+        expect(result.metadata.ok).toBe(false);
+      } finally {
+        await fs.promises.rm(path.join(base, 'extra.txt'));
+      }
+    });
+
+    it('rejects manifest entries outside the directory', async () => {
+      await expect(ChecksumService.verifyManifest(base, `${sha256('x')}  ../outside.txt`, true))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_MANIFEST' });
+      await expect(ChecksumService.verifyManifest(base, `${sha256('x')}  /etc/hosts`, true))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_MANIFEST' });
+    });
+
+    it('rejects malformed manifests', async () => {
+      await expect(ChecksumService.verifyManifest(base, 'not a manifest', true))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_MANIFEST' });
+      await expect(ChecksumService.verifyManifest(base, '# only a comment', true))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_MANIFEST' });
+    });
+
+    it('stops walking and hashing once aborted', async () => {
+      const abort = new AbortController();
+      abort.abort();
+
+      const result = await ChecksumService.verifyManifest(base, `${sha256('alpha')}  a.txt`, true, undefined, abort.signal);
+      expect(result.matched).toEqual([]);
+      expect(result.unreadable).toEqual([]);
+    });
+  });
+});
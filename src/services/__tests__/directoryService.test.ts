@@ -0,0 +1,67 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DirectoryService } from '../directoryService';
+import { requestContext } from '../../utils/requestContext';
+import { RequestContext } from '../../types/auth';
+
+const createContext = (roots: string[] | null): RequestContext => ({
+  principal: null,
+  roots,
+  audit: { paths: [], counts: {}, error: null },
+});
+
+describe('DirectoryService', () => {
+  let base: string;
+  let linkDir: string;
+
+  beforeAll(async () => {
+    base = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'directory-')));
+    linkDir = path.join(base, 'links');
+    await fs.promises.mkdir(linkDir);
+    await fs.promises.mkdir(path.join(base, 'targets'));
+    await fs.promises.writeFile(path.join(base, 'targets', 'report.txt'), 'report');
+    await fs.promises.symlink(path.join(base, 'targets', 'report.txt'), path.join(linkDir, 'report.txt'));
+    await fs.promises.writeFile(path.join(base, 'targets', 'summary.txt'), 'summary');
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(base, { recursive: true, force: true });
+  });
+
+  describe('listDirectory', () => {
+    const listFollowingLinks = (roots: string[]): ReturnType<typeof DirectoryService.listDirectory> =>
+      requestContext.run(createContext(roots), () =>
+        DirectoryService.listDirectory(linkDir, 1, 100, false, DirectoryService.DEFAULT_SORT, true));
+
+    it('does not share cached listings between callers confined to different roots', async () => {
+      const wide = await listFollowingLinks([base]);
+      expect(wide.items).toEqual([expect.objectContaining({ name: 'report.txt', type: 'file', size: 6 })]);
+
+      const narrow = await listFollowingLinks([linkDir]);
+      expect(narrow.items).toEqual([expect.objectContaining({ name: 'report.txt', type: 'symlink', size: 0 })]);
+    });
+
+    it('rejects directories outside the caller\'s roots', async () => {
+      await expect(requestContext.run(createContext([linkDir]), () =>
+        DirectoryService.listDirectory(path.join(base, 'targets'))))
+        .rejects.toMatchObject({ statusCode: 403, code: 'OUTSIDE_ALLOWED_ROOTS' });
+    });
+  });
+
+  describe('listFromCursor', () => {
+    it('checks the snapshot\'s directory against the current caller\'s roots', async () => {
+      const first = await requestContext.run(createContext([base]), () =>
+        DirectoryService.listDirectory(path.join(base, 'targets'), 1, 1));
+      const cursor = first.pagination.nextCursor as string;
+
+      const context = createContext([linkDir]);
+      await expect(requestContext.run(context, () => DirectoryService.listFromCursor(cursor, 1)))
+        .rejects.toMatchObject({ statusCode: 403, code: 'OUTSIDE_ALLOWED_ROOTS' });
+      expect(context.audit.paths).toEqual([path.join(base, 'targets')]);
+
+      const second = await requestContext.run(createContext([base]), () => DirectoryService.listFromCursor(cursor, 1));
+      expect(second.items.map(item => item.name)).toEqual(['summary.txt']);
+    });
+  });
+});
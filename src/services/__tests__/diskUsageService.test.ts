@@ -0,0 +1,63 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DiskUsageOptions } from '../../types/directory';
+
+// Roots are read when the services load, so they are set up first
+const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'usage-')));
+const root = path.join(base, 'root');
+const outside = path.join(base, 'outside');
+
+process.env.ALLOWED_ROOTS = root;
+
+const options: DiskUsageOptions = { maxDepth: Infinity, timeoutMs: 10000, top: 10, includeHidden: true };
+
+describe('DiskUsageService', () => {
+  let DiskUsageService: typeof import('../diskUsageService').DiskUsageService;
+
+  beforeAll(async () => {
+    await fs.promises.mkdir(path.join(root, 'data', 'deep'), { recursive: true });
+    await fs.promises.mkdir(outside);
+    await fs.promises.writeFile(path.join(root, 'data', 'a.bin'), Buffer.alloc(100));
+    await fs.promises.writeFile(path.join(root, 'data', 'deep', 'b.bin'), Buffer.alloc(50));
+    await fs.promises.link(path.join(root, 'data', 'a.bin'), path.join(root, 'data', 'a-link.bin'));
+    await fs.promises.writeFile(path.join(outside, 'big.bin'), Buffer.alloc(10000));
+    await fs.promises.symlink(outside, path.join(root, 'data', 'outside'));
+
+    ({ DiskUsageService } = await import('../diskUsageService'));
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(base, { recursive: true, force: true });
+  });
+
+  it('counts hard links once and does not follow symbolic links out of the tree', async () => {
+    const usage = await DiskUsageService.getUsage(path.join(root, 'data'), options);
+
+    expect(usage.totals).toMatchObject({ files: 2, directories: 1, symlinks: 1 });
+    expect(usage.largestFiles.map(file => file.apparentSize)).toEqual([100, 50]);
+    expect(usage.totals.apparentSize).toBeLessThan(10000);
+  });
+
+  it('reports when the depth limit cut the scan short', async () => {
+    const usage = await DiskUsageService.getUsage(path.join(root, 'data'), { ...options, maxDepth: 0 });
+    expect(usage.metadata.depthLimited).toBe(true);
+  });
+
+  it('rejects files, paths outside the roots and symlink escapes', async () => {
+    await expect(DiskUsageService.getUsage(path.join(root, 'data', 'a.bin'), options))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(DiskUsageService.getUsage(outside, options))
+      .rejects.toMatchObject({ statusCode: 403, code: 'OUTSIDE_ALLOWED_ROOTS' });
+    await expect(DiskUsageService.getUsage(path.join(root, 'data', 'outside'), options))
+      .rejects.toMatchObject({ statusCode: 403, code: 'SYMLINK_ESCAPE' });
+  });
+
+  it('stops once aborted', async () => {
+    const abort = new AbortController();
+    abort.abort();
+
+    const usage = await DiskUsageService.getUsage(path.join(root, 'data'), options, undefined, abort.signal);
+    expect(usage.totals.files).toBe(0);
+  });
+});
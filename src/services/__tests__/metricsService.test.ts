@@ -0,0 +1,40 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ListingCacheService } from '../listingCacheService';
+import { MetricsService, listingCacheEntries, listingCacheLookups, watchSubscribers } from '../metricsService';
+
+describe('MetricsService', () => {
+  let base: string;
+
+  beforeAll(async () => {
+    base = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'metrics-')));
+  });
+
+  afterAll(async () => {
+    ListingCacheService.invalidate(base);
+    await fs.promises.rm(base, { recursive: true, force: true });
+  });
+
+  it('reads the listing cache and watch figures when collected', async () => {
+    ListingCacheService.set('metrics', base, 1, {});
+    ListingCacheService.get('metrics', base, 1);
+    ListingCacheService.get('unknown', base, 1);
+
+    expect((await listingCacheEntries.get()).values).toEqual([expect.objectContaining({ value: 1 })]);
+    expect((await listingCacheLookups.get()).values).toEqual(expect.arrayContaining([
+      expect.objectContaining({ labels: { result: 'hit' }, value: 1 }),
+      expect.objectContaining({ labels: { result: 'miss' }, value: 1 }),
+    ]));
+    expect((await watchSubscribers.get()).values).toEqual([expect.objectContaining({ value: 0 })]);
+  });
+
+  it('renders every collector in the exposition format', async () => {
+    const metrics = await MetricsService.getMetrics();
+
+    for (const name of ['listing_cache_lookups_total', 'listing_cache_entries', 'listing_cache_watchers',
+      'directory_watch_directories', 'directory_watch_subscribers', 'http_requests_total']) {
+      expect(metrics).toContain(`# TYPE ${name} `);
+    }
+  });
+});
@@ -0,0 +1,67 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SearchService } from '../searchService';
+import { ContentSearchOptions, NameSearchOptions } from '../../types/directory';
+
+describe('SearchService', () => {
+  let base: string;
+
+  const nameOptions = (regex: string): NameSearchOptions => ({
+    regex,
+    caseSensitive: false,
+    extensions: [],
+    maxDepth: 5,
+    maxResults: 100,
+    includeHidden: false,
+  });
+
+  const contentOptions = (query: string, isRegex: boolean): ContentSearchOptions => ({
+    query,
+    isRegex,
+    caseSensitive: false,
+    maxFileSize: 1024 * 1024,
+    maxMatches: 100,
+    timeoutMs: 5000,
+    maxDepth: 5,
+    includeHidden: false,
+  });
+
+  beforeAll(async () => {
+    base = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'search-'));
+    await fs.promises.writeFile(path.join(base, 'server.log'), `ok\n${'a'.repeat(40)}!\n`);
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(base, { recursive: true, force: true });
+  });
+
+  it('rejects name regexes with nested quantifiers or repeated alternatives', async () => {
+    await expect(SearchService.searchByName(base, nameOptions('(a+)+$')))
+      .rejects.toMatchObject({ statusCode: 400, code: 'UNSAFE_REGEX' });
+    await expect(SearchService.searchByName(base, nameOptions('(a|aa)+$')))
+      .rejects.toMatchObject({ statusCode: 400, code: 'UNSAFE_REGEX' });
+  });
+
+  it('rejects invalid name regexes', async () => {
+    await expect(SearchService.searchByName(base, nameOptions('(')))
+      .rejects.toMatchObject({ statusCode: 400, message: 'Invalid regular expression' });
+  });
+
+  it('rejects content regexes with nested quantifiers or repeated alternatives', async () => {
+    await expect(SearchService.searchContent(base, contentOptions('(a+)+$', true)))
+      .rejects.toMatchObject({ statusCode: 400, code: 'UNSAFE_REGEX' });
+    await expect(SearchService.searchContent(base, contentOptions('(.|\\s)*x', true)))
+      .rejects.toMatchObject({ statusCode: 400, code: 'UNSAFE_REGEX' });
+  });
+
+  it('searches literal queries without regex checks', async () => {
+    const response = await SearchService.searchContent(base, contentOptions('(a+)+$', false));
+    expect(response.results).toHaveLength(0);
+
+    const regexResponse = await SearchService.searchContent(base, contentOptions('a{40}!', true));
+    expect(regexResponse.results).toEqual([
+      expect.objectContaining({ path: path.join(base, 'server.log'), line: 2 }),
+    ]);
+  });
+});
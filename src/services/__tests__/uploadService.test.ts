@@ -0,0 +1,147 @@
+import fs from 'fs';
+import { IncomingHttpHeaders } from 'http';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { requestContext } from '../../utils/requestContext';
+import { RequestContext } from '../../types/auth';
+
+// Limits are read when the service loads, so they are set up first
+const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'upload-')));
+const root = path.join(base, 'root');
+const inbox = path.join(root, 'inbox');
+
+process.env.ALLOWED_ROOTS = root;
+process.env.TRASH_DIR = path.join(base, 'trash');
+process.env.UPLOAD_MAX_BYTES = '4096';
+process.env.UPLOAD_MAX_FILES = '2';
+process.env.UPLOAD_ALLOWED_EXTENSIONS = 'txt,csv';
+process.env.UPLOAD_ROOT_QUOTA_BYTES = '10000';
+process.env.UPLOAD_QUOTA_CACHE_TTL_MS = '0';
+
+/**
+ * Builds a multipart/form-data body with one part per file
+ */
+const multipart = (
+  files: Array<{ name: string; content: string }>,
+  withLength: boolean = true
+): { input: Readable; headers: IncomingHttpHeaders } => {
+  const boundary = 'test-boundary';
+  const parts = files.map(file =>
+    `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${file.name}"\r\n` +
+    `Content-Type: application/octet-stream\r\n\r\n${file.content}\r\n`);
+  const body = Buffer.from(`${parts.join('')}--${boundary}--\r\n`);
+
+  return {
+    input: Readable.from([body]),
+    headers: {
+      'content-type': `multipart/form-data; boundary=${boundary}`,
+      ...(withLength ? { 'content-length': String(body.length) } : {}),
+    },
+  };
+};
+
+describe('UploadService', () => {
+  let UploadService: typeof import('../uploadService').UploadService;
+
+  const upload = (files: Array<{ name: string; content: string }>, conflict: 'fail' | 'rename' = 'fail', withLength = true):
+    ReturnType<typeof UploadService.upload> => {
+    const { input, headers } = multipart(files, withLength);
+    return UploadService.upload(inbox, input, headers, conflict);
+  };
+
+  const leftovers = async (): Promise<string[]> =>
+    (await fs.promises.readdir(inbox)).filter(name => name.startsWith('.upload-'));
+
+  beforeAll(async () => {
+    ({ UploadService } = await import('../uploadService'));
+  });
+
+  beforeEach(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+    await fs.promises.mkdir(inbox, { recursive: true });
+    await fs.promises.mkdir(path.join(root, 'other'));
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(base, { recursive: true, force: true });
+  });
+
+  it('stores every file of the request', async () => {
+    const response = await upload([{ name: 'a.txt', content: 'alpha' }, { name: 'b.csv', content: 'x,y' }]);
+
+    expect(response.files.map(file => file.path)).toEqual([path.join(inbox, 'a.txt'), path.join(inbox, 'b.csv')]);
+    await expect(fs.promises.readFile(path.join(inbox, 'a.txt'), 'utf8')).resolves.toBe('alpha');
+    await expect(leftovers()).resolves.toEqual([]);
+  });
+
+  it('rejects extensions outside the allowlist and keeps nothing', async () => {
+    await expect(upload([{ name: 'a.txt', content: 'alpha' }, { name: 'run.sh', content: 'echo' }]))
+      .rejects.toMatchObject({ statusCode: 415, code: 'EXTENSION_NOT_ALLOWED' });
+    await expect(fs.promises.readdir(inbox)).resolves.toEqual([]);
+  });
+
+  it('rejects invalid file names', async () => {
+    await expect(upload([{ name: '..', content: 'x' }]))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(fs.promises.readdir(inbox)).resolves.toEqual([]);
+  });
+
+  it('rejects too many files', async () => {
+    const files = ['a', 'b', 'c'].map(name => ({ name: `${name}.txt`, content: name }));
+    await expect(upload(files)).rejects.toMatchObject({ statusCode: 413, code: 'TOO_MANY_FILES' });
+    await expect(leftovers()).resolves.toEqual([]);
+  });
+
+  it('rejects oversized requests, with or without a Content-Length', async () => {
+    const large = [{ name: 'large.txt', content: 'x'.repeat(70 * 1024) }];
+    await expect(upload(large)).rejects.toMatchObject({ statusCode: 413, code: 'UPLOAD_TOO_LARGE' });
+
+    const streamed = [{ name: 'large.txt', content: 'x'.repeat(5000) }];
+    await expect(upload(streamed, 'fail', false)).rejects.toMatchObject({ statusCode: 413, code: 'UPLOAD_TOO_LARGE' });
+    await expect(fs.promises.readdir(inbox)).resolves.toEqual([]);
+  });
+
+  it('applies the conflict policy to existing names', async () => {
+    await fs.promises.writeFile(path.join(inbox, 'a.txt'), 'old');
+
+    await expect(upload([{ name: 'a.txt', content: 'new' }]))
+      .rejects.toMatchObject({ statusCode: 409, code: 'DESTINATION_EXISTS' });
+    await expect(upload([{ name: 'b.txt', content: 'b' }, { name: 'b.txt', content: 'b' }]))
+      .rejects.toMatchObject({ statusCode: 409, code: 'DESTINATION_EXISTS' });
+
+    const response = await upload([{ name: 'a.txt', content: 'new' }], 'rename');
+    expect(response.files[0]?.path).toBe(path.join(inbox, 'a (1).txt'));
+    await expect(fs.promises.readFile(path.join(inbox, 'a.txt'), 'utf8')).resolves.toBe('old');
+    await expect(leftovers()).resolves.toEqual([]);
+  });
+
+  it('rejects uploads that would exceed the root quota', async () => {
+    await fs.promises.writeFile(path.join(root, 'other', 'big.bin'), Buffer.alloc(9950));
+
+    await expect(upload([{ name: 'a.txt', content: 'alpha' }]))
+      .rejects.toMatchObject({ statusCode: 507, code: 'QUOTA_EXCEEDED' });
+    await expect(fs.promises.readdir(inbox)).resolves.toEqual([]);
+  });
+
+  it('measures the quota for callers confined to part of the root', async () => {
+    const context: RequestContext = { principal: null, roots: [inbox], audit: { paths: [], counts: {}, error: null } };
+
+    const response = await requestContext.run(context, () => upload([{ name: 'a.txt', content: 'alpha' }]));
+    expect(response.files).toHaveLength(1);
+    expect(context.audit.paths).toEqual([inbox, path.join(inbox, 'a.txt')]);
+  });
+
+  it('refuses to load with a quota but no allowed roots', async () => {
+    const allowedRoots = process.env.ALLOWED_ROOTS;
+    process.env.ALLOWED_ROOTS = '';
+
+    try {
+      await jest.isolateModulesAsync(async () => {
+        await expect(import('../uploadService')).rejects.toThrow('UPLOAD_ROOT_QUOTA_BYTES requires ALLOWED_ROOTS');
+      });
+    } finally {
+      process.env.ALLOWED_ROOTS = allowedRoots;
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { requestContext } from '../../utils/requestContext';
+import { RequestContext } from '../../types/auth';
+import { DirectoryWatchEvent } from '../../types/directory';
+
+// Roots and the debounce window are read when the services load, so they are set up first
+const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'watch-')));
+const watched = path.join(base, 'watched');
+const targets = path.join(base, 'targets');
+
+process.env.ALLOWED_ROOTS = base;
+process.env.WATCH_DEBOUNCE_MS = '20';
+
+const createContext = (roots: string[] | null): RequestContext => ({
+  principal: null,
+  roots,
+  audit: { paths: [], counts: {}, error: null },
+});
+
+describe('DirectoryWatchService', () => {
+  let DirectoryWatchService: typeof import('../watchService').DirectoryWatchService;
+
+  beforeAll(async () => {
+    await fs.promises.mkdir(watched);
+    await fs.promises.mkdir(targets);
+    await fs.promises.writeFile(path.join(targets, 'report.txt'), 'report');
+
+    ({ DirectoryWatchService } = await import('../watchService'));
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(base, { recursive: true, force: true });
+  });
+
+  it('builds events within the roots of each watching client', async () => {
+    const received = { wide: [] as DirectoryWatchEvent[], narrow: [] as DirectoryWatchEvent[] };
+    const subscribe = (client: 'wide' | 'narrow', roots: string[]): ReturnType<typeof DirectoryWatchService.subscribe> =>
+      requestContext.run(createContext(roots), () =>
+        DirectoryWatchService.subscribe(watched, client, false, true, event => received[client].push(event)));
+
+    const wide = await subscribe('wide', [base]);
+    const narrow = await subscribe('narrow', [watched]);
+    expect(DirectoryWatchService.getStats()).toEqual({ directories: 2, subscribers: 2 });
+
+    try {
+      await fs.promises.symlink(path.join(targets, 'report.txt'), path.join(watched, 'report.txt'));
+      for (let attempt = 0; attempt < 100 && (received.wide.length === 0 || received.narrow.length === 0); attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+
+      expect(received.wide).toEqual([expect.objectContaining({
+        type: 'add',
+        entry: expect.objectContaining({ name: 'report.txt', type: 'file', size: 6 }),
+      })]);
+      expect(received.narrow).toEqual([expect.objectContaining({
+        type: 'add',
+        entry: expect.objectContaining({ name: 'report.txt', type: 'symlink', size: 0 }),
+      })]);
+    } finally {
+      wide.unsubscribe();
+      narrow.unsubscribe();
+    }
+  });
+});
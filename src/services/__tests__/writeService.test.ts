@@ -0,0 +1,133 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Roots and the trash are read when the services load, so they are set up first
+const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'write-')));
+const root = path.join(base, 'root');
+const outside = path.join(base, 'outside');
+
+process.env.ALLOWED_ROOTS = root;
+process.env.DENIED_PATHS = '**/*.secret';
+process.env.TRASH_DIR = path.join(base, 'trash');
+
+describe('WriteService', () => {
+  let WriteService: typeof import('../writeService').WriteService;
+
+  const file = (...segments: string[]): string => path.join(root, ...segments);
+  const read = (filePath: string): Promise<string> => fs.promises.readFile(filePath, 'utf8');
+
+  beforeAll(async () => {
+    ({ WriteService } = await import('../writeService'));
+  });
+
+  beforeEach(async () => {
+    await fs.promises.rm(base, { recursive: true, force: true });
+    await fs.promises.mkdir(path.join(root, 'docs', 'nested'), { recursive: true });
+    await fs.promises.mkdir(path.join(root, 'archive'));
+    await fs.promises.mkdir(outside);
+    await fs.promises.writeFile(file('docs', 'report.txt'), 'new');
+    await fs.promises.writeFile(file('archive', 'report.txt'), 'old');
+    await fs.promises.writeFile(path.join(outside, 'target.txt'), 'target');
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(base, { recursive: true, force: true });
+  });
+
+  describe('conflict policies', () => {
+    it('fails on an existing destination with the fail policy', async () => {
+      await expect(WriteService.copy(file('docs', 'report.txt'), file('archive'), 'fail'))
+        .rejects.toMatchObject({ statusCode: 409, code: 'DESTINATION_EXISTS' });
+      await expect(read(file('archive', 'report.txt'))).resolves.toBe('old');
+    });
+
+    it('picks a free name with the rename policy', async () => {
+      await fs.promises.writeFile(file('archive', 'report (1).txt'), 'older');
+
+      const result = await WriteService.move(file('docs', 'report.txt'), file('archive'), 'rename');
+      expect(result.path).toBe(file('archive', 'report (2).txt'));
+      await expect(read(file('archive', 'report.txt'))).resolves.toBe('old');
+      await expect(read(result.path)).resolves.toBe('new');
+    });
+
+    it('moves the replaced entry to the trash with the overwrite policy', async () => {
+      const result = await WriteService.copy(file('docs', 'report.txt'), file('archive'), 'overwrite');
+      expect(result.replaced).toMatchObject({ name: 'report.txt', originalPath: file('archive', 'report.txt') });
+      await expect(read(file('archive', 'report.txt'))).resolves.toBe('new');
+
+      const { items } = await WriteService.listTrash();
+      expect(items.map(item => item.id)).toEqual([result.replaced?.id]);
+    });
+
+    it('does not let an entry overwrite itself or a directory containing it', async () => {
+      await expect(WriteService.rename(file('docs', 'report.txt'), 'report.txt', 'overwrite'))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_DESTINATION' });
+      await expect(WriteService.move(file('docs', 'nested'), file('docs'), 'overwrite'))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_DESTINATION' });
+      await expect(WriteService.move(file('docs'), file('docs', 'nested'), 'rename'))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_DESTINATION' });
+      await expect(WriteService.copy(file('docs'), file('docs', 'nested'), 'rename'))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_DESTINATION' });
+    });
+  });
+
+  describe('path checks', () => {
+    it('rejects invalid names', async () => {
+      for (const name of ['', '.', '..', 'a/b', 'a\\b', 'x'.repeat(256)]) {
+        await expect(WriteService.rename(file('docs', 'report.txt'), name, 'fail'))
+          .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_NAME' });
+      }
+    });
+
+    it('rejects traversal, paths outside the roots and denied paths', async () => {
+      await expect(WriteService.delete(`${root}/docs/../../outside/target.txt`))
+        .rejects.toMatchObject({ statusCode: 403, code: 'PATH_TRAVERSAL' });
+      await expect(WriteService.delete(path.join(outside, 'target.txt')))
+        .rejects.toMatchObject({ statusCode: 403, code: 'OUTSIDE_ALLOWED_ROOTS' });
+      await expect(WriteService.copy(file('docs', 'report.txt'), outside, 'rename'))
+        .rejects.toMatchObject({ statusCode: 403, code: 'OUTSIDE_ALLOWED_ROOTS' });
+      await expect(WriteService.rename(file('docs', 'report.txt'), 'keys.secret', 'fail'))
+        .rejects.toMatchObject({ statusCode: 403, code: 'PATH_DENIED' });
+    });
+
+    it('rejects writes through a directory symlink leading out of the roots', async () => {
+      await fs.promises.symlink(outside, file('escape'));
+
+      await expect(WriteService.createDirectory(file('escape', 'new'), false, 'fail'))
+        .rejects.toMatchObject({ statusCode: 403, code: 'SYMLINK_ESCAPE' });
+      await expect(fs.promises.access(path.join(outside, 'new'))).rejects.toThrow();
+    });
+
+    it('deletes a symbolic link itself, not its target', async () => {
+      await fs.promises.symlink(path.join(outside, 'target.txt'), file('link.txt'));
+
+      const item = await WriteService.delete(file('link.txt'));
+      expect(item.type).toBe('symlink');
+      await expect(read(path.join(outside, 'target.txt'))).resolves.toBe('target');
+    });
+  });
+
+  describe('trash', () => {
+    it('restores a deleted entry under the conflict policy', async () => {
+      const item = await WriteService.delete(file('docs', 'report.txt'));
+      await fs.promises.writeFile(file('docs', 'report.txt'), 'replacement');
+
+      await expect(WriteService.restore(item.id, 'fail'))
+        .rejects.toMatchObject({ statusCode: 409, code: 'DESTINATION_EXISTS' });
+
+      const result = await WriteService.restore(item.id, 'rename');
+      expect(result.path).toBe(file('docs', 'report (1).txt'));
+      await expect(read(result.path)).resolves.toBe('new');
+      await expect(WriteService.restore(item.id, 'rename'))
+        .rejects.toMatchObject({ statusCode: 404, code: 'TRASH_ITEM_NOT_FOUND' });
+    });
+
+    it('rejects unknown and malformed trash ids', async () => {
+      await expect(WriteService.purge('00000000-0000-0000-0000-000000000000'))
+        .rejects.toMatchObject({ statusCode: 404, code: 'TRASH_ITEM_NOT_FOUND' });
+      await expect(WriteService.restore('../root', 'fail'))
+        .rejects.toMatchObject({ statusCode: 404, code: 'TRASH_ITEM_NOT_FOUND' });
+    });
+  });
+});
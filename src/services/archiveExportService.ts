@@ -0,0 +1,292 @@
+import fs from 'fs';
+import path from 'path';
+import { Writable } from 'stream';
+import archiver from 'archiver';
+import { ArchiveExportOptions, ArchiveExportSummary, ArchiveFormat, WalkEntry } from '../types/directory';
+import { DirectoryService } from './directoryService';
+import { createError } from '../middleware/errorHandler';
+import { SCAN_CONCURRENCY, mapWithConcurrency } from '../utils/concurrency';
+import { logger } from '../utils/logger';
+import { PathGuard } from '../utils/pathGuard';
+
+interface ExportEntry {
+  // Path inside the archive, with `/` separators
+  name: string;
+  path: string;
+  stats: fs.Stats;
+}
+
+export interface ExportPlan {
+  name: string;
+  entries: ExportEntry[];
+  files: number;
+  bytes: number;
+}
+
+/**
+ * Packs directories and files into zip or tar.gz archives that are streamed
+ * to the client as they are built.
+ *
+ * An export is planned first: the selected paths go through the path guard
+ * and the trees below them are walked, so the size and file-count caps can
+ * be enforced before any byte is sent. Files are then read one at a time;
+ * files that can no longer be opened are left out and listed in
+ * SKIPPED_FILES_NAME at the end of the archive. Symbolic links are stored as
+ * links and never followed.
+ */
+export class ArchiveExportService {
+  public static readonly FORMATS: readonly ArchiveFormat[] = ['zip', 'tar.gz'];
+  public static readonly MAX_BYTES = parseInt(process.env.ARCHIVE_DOWNLOAD_MAX_BYTES || '2147483648'); // 2 GB
+  public static readonly MAX_FILES = parseInt(process.env.ARCHIVE_DOWNLOAD_MAX_FILES || '10000');
+  public static readonly SKIPPED_FILES_NAME = '_skipped-files.txt';
+  private static readonly COMPRESSION_LEVEL = 6;
+  private static readonly STAT_BATCH_SIZE = 1000;
+
+  /**
+   * Validates the selected paths and lists everything the archive will
+   * contain. Each selected path becomes a top-level entry named after it.
+   */
+  public static async plan(paths: string[], options: ArchiveExportOptions): Promise<ExportPlan> {
+    const plan: ExportPlan = { name: 'download', entries: [], files: 0, bytes: 0 };
+    const selected = new Set<string>();
+    const topLevelNames = new Set<string>();
+
+    for (const requestedPath of paths) {
+      const normalizedPath = await DirectoryService.validatePath(requestedPath);
+      if (selected.has(normalizedPath)) {
+        continue;
+      }
+      selected.add(normalizedPath);
+
+      const name = this.uniqueName(path.basename(normalizedPath) || 'root', topLevelNames);
+      const stats = await fs.promises.lstat(normalizedPath);
+      this.addEntry(plan, { name, path: normalizedPath, stats }, options);
+
+      if (stats.isDirectory()) {
+        await this.addTree(plan, normalizedPath, name, options);
+      }
+    }
+
+    if (paths.length === 1 && plan.entries[0]) {
+      plan.name = plan.entries[0].name;
+    }
+
+    logger.info(`Planned archive export: ${plan.name}`, {
+      paths: selected.size,
+      entries: plan.entries.length,
+      files: plan.files,
+      bytes: plan.bytes,
+    });
+
+    return plan;
+  }
+
+  /**
+   * Picks a top-level name that is not used yet, like `report (1)`
+   */
+  private static uniqueName(name: string, used: Set<string>): string {
+    let candidate = name;
+    for (let i = 1; used.has(candidate); i++) {
+      candidate = `${name} (${i})`;
+    }
+
+    used.add(candidate);
+    return candidate;
+  }
+
+  /**
+   * Adds an entry to the plan, enforcing the caps
+   */
+  private static addEntry(plan: ExportPlan, entry: ExportEntry, options: ArchiveExportOptions): void {
+    if (entry.stats.isFile()) {
+      plan.files++;
+      plan.bytes += entry.stats.size;
+    }
+
+    if (plan.files > options.maxFiles) {
+      throw createError(`Archives are limited to ${options.maxFiles} files`, 413, 'ARCHIVE_TOO_LARGE');
+    }
+    if (plan.bytes > options.maxBytes) {
+      throw createError(`Archives are limited to ${options.maxBytes} bytes of file content`, 413, 'ARCHIVE_TOO_LARGE');
+    }
+
+    plan.entries.push(entry);
+  }
+
+  /**
+   * Adds every entry below a directory, lstat'ing them in batches. Denied
+   * paths and special files (sockets, devices, FIFOs) are left out.
+   */
+  private static async addTree(
+    plan: ExportPlan,
+    dirPath: string,
+    prefix: string,
+    options: ArchiveExportOptions
+  ): Promise<void> {
+    let batch: WalkEntry[] = [];
+
+    const flush = async (): Promise<void> => {
+      const entries = batch;
+      batch = [];
+
+      const stats = await mapWithConcurrency(entries, SCAN_CONCURRENCY, async (entry) => {
+        try {
+          return await fs.promises.lstat(entry.path);
+        } catch {
+          return null;
+        }
+      });
+
+      entries.forEach((entry, index) => {
+        const entryStats = stats[index];
+        if (entryStats && (entryStats.isFile() || entryStats.isDirectory() || entryStats.isSymbolicLink())) {
+          this.addEntry(plan, { name: `${prefix}/${entry.relativePath}`, path: entry.path, stats: entryStats }, options);
+        }
+      });
+    };
+
+    for await (const entry of DirectoryService.walk(dirPath, Infinity, options.includeHidden)) {
+      if (PathGuard.isDenied(entry.path)) {
+        continue;
+      }
+
+      batch.push(entry);
+      if (batch.length >= this.STAT_BATCH_SIZE) {
+        await flush();
+      }
+    }
+
+    await flush();
+  }
+
+  /**
+   * Writes the planned entries as an archive to `output`, reading one file at
+   * a time so memory use stays flat. Aborting `signal` stops the export and
+   * rejects.
+   */
+  public static async pack(
+    plan: ExportPlan,
+    format: ArchiveFormat,
+    output: Writable,
+    signal?: AbortSignal
+  ): Promise<ArchiveExportSummary> {
+    const startedAt = Date.now();
+    const archive = format === 'zip'
+      ? archiver('zip', { zlib: { level: this.COMPRESSION_LEVEL } })
+      : archiver('tar', { gzip: true, gzipOptions: { level: this.COMPRESSION_LEVEL } });
+
+    const summary: ArchiveExportSummary = { files: 0, directories: 0, bytes: 0, skipped: [], durationMs: 0 };
+    let queued = 0;
+    let processed = 0;
+
+    // Settles when the archive fails or the client goes away (possibly
+    // before packing started), whichever is first
+    const stopped = new Promise<never>((_, reject) => {
+      const cancel = (): void => reject(createError('Archive download was cancelled', 499));
+      archive.on('error', reject);
+      if (signal?.aborted) {
+        cancel();
+      } else {
+        signal?.addEventListener('abort', cancel, { once: true });
+      }
+    });
+    stopped.catch(() => archive.abort());
+
+    archive.on('warning', (warning) => logger.warn(`Archive warning: ${plan.name}`, { error: warning.message }));
+    archive.on('entry', () => processed++);
+    archive.pipe(output);
+
+    for (const entry of plan.entries) {
+      if (signal?.aborted) {
+        await stopped;
+      }
+
+      const data = { name: entry.name, date: entry.stats.mtime, mode: entry.stats.mode & 0o7777 };
+
+      if (entry.stats.isDirectory()) {
+        archive.append(Buffer.alloc(0), { ...data, name: `${entry.name}/` });
+        summary.directories++;
+        queued++;
+      } else if (entry.stats.isSymbolicLink()) {
+        try {
+          archive.symlink(entry.name, await fs.promises.readlink(entry.path), data.mode);
+          queued++;
+        } catch (error) {
+          summary.skipped.push({ path: entry.name, reason: (error as Error).message });
+        }
+      } else {
+        const added = await this.appendFile(archive, entry, data);
+        if (added === null) {
+          summary.skipped.push({ path: entry.name, reason: 'File could not be opened' });
+          continue;
+        }
+        queued++;
+
+        // Wait until the file has been consumed before opening the next one
+        await Promise.race([this.waitForEntries(archive, () => processed >= queued), stopped]);
+        summary.files++;
+        summary.bytes += added;
+      }
+    }
+
+    if (summary.skipped.length > 0) {
+      const lines = summary.skipped.map(({ path: skippedPath, reason }) => `${skippedPath}\t${reason}\n`);
+      archive.append(`# Entries left out of this archive\n${lines.join('')}`, { name: this.SKIPPED_FILES_NAME });
+    }
+
+    await Promise.race([archive.finalize(), stopped]);
+    summary.durationMs = Date.now() - startedAt;
+
+    logger.info(`Archive export finished: ${plan.name}`, { format, ...summary, skipped: summary.skipped.length });
+    return summary;
+  }
+
+  /**
+   * Resolves once `done` holds after an archive entry has been processed
+   */
+  private static waitForEntries(archive: archiver.Archiver, done: () => boolean): Promise<void> {
+    if (done()) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const onEntry = (): void => {
+        if (done()) {
+          archive.off('entry', onEntry);
+          resolve();
+        }
+      };
+      archive.on('entry', onEntry);
+    });
+  }
+
+  /**
+   * Opens a file and queues it in the archive. The size is taken from the
+   * open file and the read is capped at it, so a file that grows while it is
+   * packed does not corrupt a tar header. Resolves with the number of bytes
+   * queued, or null if the file could not be opened.
+   */
+  private static async appendFile(
+    archive: archiver.Archiver,
+    entry: ExportEntry,
+    data: { name: string; date: Date; mode: number }
+  ): Promise<number | null> {
+    let handle: fs.promises.FileHandle;
+    try {
+      handle = await fs.promises.open(entry.path, 'r');
+    } catch (error) {
+      logger.debug(`Skipping unreadable file: ${entry.path}`, { error: (error as Error).message });
+      return null;
+    }
+
+    const stats = await handle.stat();
+    if (stats.size === 0) {
+      await handle.close();
+      archive.append(Buffer.alloc(0), data);
+      return 0;
+    }
+
+    archive.append(handle.createReadStream({ start: 0, end: stats.size - 1 }), { ...data, stats });
+    return stats.size;
+  }
+}
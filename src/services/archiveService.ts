@@ -0,0 +1,395 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { Readable, pipeline } from 'stream';
+import { promisify } from 'util';
+import moment from 'moment';
+import yauzl from 'yauzl';
+import tar from 'tar-stream';
+import { FileInfo, DirectoryListingResponse, ArchivePath, ArchiveEntry, ListingFilters, ListingSort } from '../types/directory';
+import { DirectoryService } from './directoryService';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const stat = promisify(fs.stat);
+
+export class ArchiveService {
+  private static readonly ARCHIVE_PATH_PATTERN = /^(.+?\.(zip|tar|tar\.gz|tgz))!(?:[/\\](.*))?$/i;
+  private static readonly MAX_ENTRIES = parseInt(process.env.ARCHIVE_MAX_ENTRIES || '100000');
+  private static readonly INDEX_CACHE_SIZE = 10;
+  private static readonly indexCache = new Map<string, { version: string; entries: ArchiveEntry[] }>();
+
+  /**
+   * Splits a path like `/data/backup.tar.gz!/etc/conf` into the archive on disk
+   * and the path inside it. Returns null for regular paths.
+   */
+  public static parseArchivePath(filePath: string): ArchivePath | null {
+    const match = this.ARCHIVE_PATH_PATTERN.exec(filePath);
+    if (!match) {
+      return null;
+    }
+
+    const extension = (match[2] as string).toLowerCase();
+    return {
+      archivePath: match[1] as string,
+      innerPath: this.normalizeEntryPath(match[3] || ''),
+      format: extension === 'zip' ? 'zip' : extension === 'tar' ? 'tar' : 'tar.gz',
+    };
+  }
+
+  /**
+   * Normalizes an entry name to a relative POSIX path without leading or
+   * trailing slashes
+   */
+  private static normalizeEntryPath(entryName: string): string {
+    const normalized = path.posix.normalize(entryName.replace(/\\/g, '/'));
+    return normalized
+      .split('/')
+      .filter(segment => segment !== '' && segment !== '.' && segment !== '..')
+      .join('/');
+  }
+
+  /**
+   * Reads entry headers from the central directory of a zip archive
+   */
+  private static async readZipEntries(archivePath: string): Promise<ArchiveEntry[]> {
+    const zipfile = await yauzl.openPromise(archivePath);
+    const entries: ArchiveEntry[] = [];
+
+    try {
+      for await (const entry of zipfile.eachEntry()) {
+        const unixMode = (entry.externalFileAttributes >>> 16) & 0xffff;
+        const isDirectory = entry.fileName.endsWith('/');
+
+        entries.push({
+          path: this.normalizeEntryPath(entry.fileName),
+          type: isDirectory ? 'directory' : 'file',
+          size: isDirectory ? 0 : entry.uncompressedSize,
+          modified: entry.getLastModDate(),
+          mode: unixMode || (isDirectory ? 0o40755 : 0o100644),
+          owner: 'unknown',
+          group: 'unknown',
+          uid: null,
+          gid: null,
+        });
+
+        if (entries.length > this.MAX_ENTRIES) {
+          throw createError('Archive has too many entries to browse', 400);
+        }
+      }
+    } finally {
+      zipfile.close();
+    }
+
+    return entries;
+  }
+
+  /**
+   * Reads entry headers from a (optionally gzipped) tar archive
+   */
+  private static async readTarEntries(archivePath: string, gzip: boolean): Promise<ArchiveEntry[]> {
+    const source = fs.createReadStream(archivePath);
+    const extract = tar.extract();
+    const entries: ArchiveEntry[] = [];
+    const onPipelineEnd = (error: NodeJS.ErrnoException | null): void => {
+      if (error) {
+        extract.destroy(error);
+      }
+    };
+
+    if (gzip) {
+      pipeline(source, zlib.createGunzip(), extract, onPipelineEnd);
+    } else {
+      pipeline(source, extract, onPipelineEnd);
+    }
+
+    try {
+      for await (const entry of extract) {
+        const { header } = entry;
+        entry.resume();
+
+        // Links and special files are not exposed
+        if (header.type !== 'file' && header.type !== 'contiguous-file' && header.type !== 'directory') {
+          continue;
+        }
+
+        const isDirectory = header.type === 'directory';
+        entries.push({
+          path: this.normalizeEntryPath(header.name),
+          type: isDirectory ? 'directory' : 'file',
+          size: isDirectory ? 0 : header.size || 0,
+          modified: header.mtime || new Date(0),
+          mode: (header.mode || 0) | (isDirectory ? 0o40000 : 0o100000),
+          owner: header.uname || (header.uid !== undefined ? header.uid.toString() : 'unknown'),
+          group: header.gname || (header.gid !== undefined ? header.gid.toString() : 'unknown'),
+          uid: header.uid ?? null,
+          gid: header.gid ?? null,
+        });
+
+        if (entries.length > this.MAX_ENTRIES) {
+          throw createError('Archive has too many entries to browse', 400);
+        }
+      }
+    } finally {
+      source.destroy();
+    }
+
+    return entries;
+  }
+
+  /**
+   * Validates the archive on disk and returns its entries, using a small
+   * cache keyed by the archive's size and modification time
+   */
+  private static async getEntries(archive: ArchivePath): Promise<ArchiveEntry[]> {
+    const archivePath = await DirectoryService.validatePath(archive.archivePath);
+    const stats = await stat(archivePath);
+    if (!stats.isFile()) {
+      throw createError('Archive path is not a file', 400);
+    }
+
+    const version = `${stats.size}:${stats.mtimeMs}`;
+    const cached = this.indexCache.get(archivePath);
+    if (cached && cached.version === version) {
+      // Refresh recency for LRU eviction
+      this.indexCache.delete(archivePath);
+      this.indexCache.set(archivePath, cached);
+      return cached.entries;
+    }
+
+    logger.info(`Indexing archive: ${archivePath}`, { format: archive.format, size: stats.size });
+
+    let entries: ArchiveEntry[];
+    try {
+      entries = archive.format === 'zip'
+        ? await this.readZipEntries(archivePath)
+        : await this.readTarEntries(archivePath, archive.format === 'tar.gz');
+    } catch (error) {
+      if ((error as any).statusCode) {
+        throw error;
+      }
+      throw createError(`Failed to read archive: ${(error as Error).message}`, 422);
+    }
+
+    this.indexCache.set(archivePath, { version, entries });
+    if (this.indexCache.size > this.INDEX_CACHE_SIZE) {
+      const oldestKey = this.indexCache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.indexCache.delete(oldestKey);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Converts an archive entry header to a FileInfo object
+   */
+  private static toFileInfo(archivePath: string, entry: ArchiveEntry): FileInfo {
+    const name = path.posix.basename(entry.path);
+    const modified = moment(entry.modified).toISOString();
+
+    return {
+      name,
+      path: `${path.resolve(archivePath)}!/${entry.path}`,
+      size: entry.size,
+      extension: entry.type === 'directory' ? '' : path.extname(name).toLowerCase(),
+      type: entry.type,
+      createdDate: modified,
+      modifiedDate: modified,
+      permissions: {
+        readable: true,
+        writable: false,
+        executable: (entry.mode & 0o111) !== 0,
+        owner: entry.owner,
+        group: entry.group,
+        uid: entry.uid,
+        gid: entry.gid,
+        mode: entry.mode.toString(8),
+        symbolicMode: DirectoryService.formatSymbolicMode(entry.mode),
+      },
+      isHidden: DirectoryService.isHiddenName(name),
+    };
+  }
+
+  /**
+   * Lists a directory inside an archive. Directories that only exist
+   * implicitly through their children's paths are synthesized.
+   */
+  public static async listDirectory(
+    dirPath: string,
+    page: number = 1,
+    limit: number = 100,
+    includeHidden: boolean = false,
+    sort: ListingSort = DirectoryService.DEFAULT_SORT,
+    filters: ListingFilters = { extensions: [] }
+  ): Promise<DirectoryListingResponse> {
+    const archive = this.parseArchivePath(dirPath);
+    if (!archive) {
+      throw createError('Path is not inside an archive', 400);
+    }
+
+    const entries = await this.getEntries(archive);
+    const prefix = archive.innerPath ? `${archive.innerPath}/` : '';
+    logger.info(`Listing archive directory: ${archive.archivePath}!/${archive.innerPath}`, { page, limit, sort });
+
+    const self = entries.find(entry => entry.path === archive.innerPath);
+    if (self && self.type !== 'directory') {
+      throw createError('Path is not a directory', 400);
+    }
+
+    const children = new Map<string, ArchiveEntry>();
+    for (const entry of entries) {
+      if (!entry.path.startsWith(prefix) || entry.path === archive.innerPath) {
+        continue;
+      }
+
+      const [childName = '', ...rest] = entry.path.slice(prefix.length).split('/');
+      if (rest.length === 0) {
+        children.set(childName, entry);
+      } else if (!children.has(childName)) {
+        children.set(childName, {
+          path: prefix + childName,
+          type: 'directory',
+          size: 0,
+          modified: entry.modified,
+          mode: 0o40755,
+          owner: entry.owner,
+          group: entry.group,
+          uid: entry.uid,
+          gid: entry.gid,
+        });
+      }
+    }
+
+    if (!self && prefix && children.size === 0) {
+      throw createError('Path does not exist in archive', 404);
+    }
+
+    const allItems = Array.from(children.values())
+      .map(entry => this.toFileInfo(archive.archivePath, entry))
+      .filter(item => includeHidden || !item.isHidden);
+
+    const displayPath = `${path.resolve(archive.archivePath)}!/${archive.innerPath}`;
+    return DirectoryService.buildListingResponse(
+      displayPath,
+      allItems.map(item => DirectoryService.toListingEntry(item)),
+      page,
+      limit,
+      sort,
+      filters
+    );
+  }
+
+  /**
+   * Gets the FileInfo of a single file entry inside an archive
+   */
+  public static async getEntryInfo(filePath: string): Promise<FileInfo> {
+    const archive = this.parseArchivePath(filePath);
+    if (!archive || !archive.innerPath) {
+      throw createError('Path does not point into an archive', 400);
+    }
+
+    const entries = await this.getEntries(archive);
+    const entry = entries.find(candidate => candidate.path === archive.innerPath);
+
+    if (!entry) {
+      const isImplicitDirectory = entries.some(candidate => candidate.path.startsWith(`${archive.innerPath}/`));
+      if (!isImplicitDirectory) {
+        throw createError('Path does not exist in archive', 404);
+      }
+    }
+
+    if (!entry || entry.type === 'directory') {
+      throw createError('Path is a directory, use /list to browse it', 400);
+    }
+
+    return this.toFileInfo(archive.archivePath, entry);
+  }
+
+  /**
+   * Opens a read stream over a single file entry inside a zip archive
+   */
+  private static async openZipEntryStream(archivePath: string, entryPath: string): Promise<Readable> {
+    const zipfile = await yauzl.openPromise(archivePath, { autoClose: false });
+
+    try {
+      for await (const entry of zipfile.eachEntry()) {
+        if (this.normalizeEntryPath(entry.fileName) === entryPath && !entry.fileName.endsWith('/')) {
+          const stream = await zipfile.openReadStreamPromise(entry);
+          stream.on('close', () => zipfile.close());
+          return stream;
+        }
+      }
+    } catch (error) {
+      zipfile.close();
+      throw error;
+    }
+
+    zipfile.close();
+    throw createError('Path does not exist in archive', 404);
+  }
+
+  /**
+   * Opens a read stream over a single file entry inside a tar archive. The
+   * archive is read sequentially up to the entry and closed once the entry
+   * stream is done.
+   */
+  private static openTarEntryStream(archivePath: string, gzip: boolean, entryPath: string): Promise<Readable> {
+    return new Promise((resolve, reject) => {
+      const source = fs.createReadStream(archivePath);
+      const extract = tar.extract();
+      let found = false;
+
+      extract.on('entry', (header, stream, next) => {
+        const isFile = header.type === 'file' || header.type === 'contiguous-file';
+        if (!found && isFile && this.normalizeEntryPath(header.name) === entryPath) {
+          found = true;
+          // The rest of the archive is not needed; next() is never called
+          const output = Readable.from(stream);
+          output.on('close', () => source.destroy());
+          resolve(output);
+          return;
+        }
+
+        stream.on('end', () => next());
+        stream.resume();
+      });
+
+      extract.on('finish', () => {
+        if (!found) {
+          reject(createError('Path does not exist in archive', 404));
+        }
+      });
+
+      const onPipelineEnd = (error: NodeJS.ErrnoException | null): void => {
+        if (error && !found) {
+          reject(createError(`Failed to read archive: ${error.message}`, 422));
+        }
+      };
+
+      if (gzip) {
+        pipeline(source, zlib.createGunzip(), extract, onPipelineEnd);
+      } else {
+        pipeline(source, extract, onPipelineEnd);
+      }
+    });
+  }
+
+  /**
+   * Opens a read stream over a single file entry inside an archive
+   */
+  public static async openEntryStream(filePath: string): Promise<Readable> {
+    const archive = this.parseArchivePath(filePath);
+    if (!archive || !archive.innerPath) {
+      throw createError('Path does not point into an archive', 400);
+    }
+
+    const archivePath = await DirectoryService.validatePath(archive.archivePath);
+    logger.info(`Extracting archive entry: ${archivePath}!/${archive.innerPath}`);
+
+    return archive.format === 'zip'
+      ? this.openZipEntryStream(archivePath, archive.innerPath)
+      : this.openTarEntryStream(archivePath, archive.format === 'tar.gz', archive.innerPath);
+  }
+}
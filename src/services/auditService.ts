@@ -0,0 +1,160 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import winston from 'winston';
+import { AuditEntry, AuditQuery, AuditQueryResponse } from '../types/audit';
+import { logger } from '../utils/logger';
+
+/**
+ * Records every filesystem access in an append-only JSON lines file, kept
+ * apart from the application log so it can be retained and shipped
+ * separately, and answers queries over it.
+ *
+ * The log is written to AUDIT_LOG_FILE and rotated once it reaches
+ * AUDIT_LOG_MAX_BYTES: the current file always has the configured name and
+ * older ones are numbered from 1 (newest) up to AUDIT_LOG_MAX_FILES - 1, after
+ * which the oldest is dropped.
+ */
+export class AuditService {
+  public static readonly MAX_QUERY_RESULTS = parseInt(process.env.AUDIT_QUERY_MAX_RESULTS || '1000');
+  private static readonly LOG_FILE = path.resolve(process.env.AUDIT_LOG_FILE || path.join('logs', 'audit.jsonl'));
+  private static readonly MAX_BYTES = parseInt(process.env.AUDIT_LOG_MAX_BYTES || '10485760'); // 10 MB
+  private static readonly MAX_FILES = parseInt(process.env.AUDIT_LOG_MAX_FILES || '10');
+
+  private static readonly auditLogger = winston.createLogger({
+    level: 'info',
+    // Entries carry their own timestamp; winston's level and message are left out
+    format: winston.format.printf(({ entry }) => JSON.stringify(entry)),
+    transports: [
+      new winston.transports.File({
+        filename: this.LOG_FILE,
+        maxsize: this.MAX_BYTES,
+        maxFiles: this.MAX_FILES,
+        tailable: true,
+      }),
+    ],
+  });
+
+  /**
+   * Appends an entry to the audit log
+   */
+  public static record(entry: AuditEntry): void {
+    this.auditLogger.info('', { entry });
+  }
+
+  /**
+   * Returns the newest entries matching a query, newest first. Every path of
+   * an entry is compared against `pathPrefix`, so a move out of a directory
+   * matches that directory too.
+   */
+  public static async query(filter: AuditQuery): Promise<AuditQueryResponse> {
+    const startedAt = Date.now();
+    const entries: AuditEntry[] = [];
+    let filesScanned = 0;
+
+    for (const file of await this.getLogFiles()) {
+      if (entries.length > filter.limit) {
+        break;
+      }
+
+      const matches = await this.readMatches(file, filter);
+      entries.push(...matches.reverse());
+      filesScanned++;
+    }
+
+    const truncated = entries.length > filter.limit;
+    const returned = entries.slice(0, filter.limit);
+    logger.info('Audit log query', { returned: returned.length, truncated, filesScanned });
+
+    return {
+      entries: returned,
+      metadata: {
+        returned: returned.length,
+        truncated,
+        filesScanned,
+        durationMs: Date.now() - startedAt,
+        queriedAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Lists the current and rotated log files, newest first
+   */
+  private static async getLogFiles(): Promise<string[]> {
+    const { dir, name, ext } = path.parse(this.LOG_FILE);
+    const files: string[] = [];
+
+    for (let i = 0; i < this.MAX_FILES; i++) {
+      const file = path.join(dir, `${name}${i === 0 ? '' : i}${ext}`);
+      try {
+        await fs.promises.access(file, fs.constants.R_OK);
+        files.push(file);
+      } catch {
+        // Not rotated that far yet
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Reads one log file line by line, keeping the last `limit + 1` matching
+   * entries in file (oldest first) order
+   */
+  private static async readMatches(file: string, filter: AuditQuery): Promise<AuditEntry[]> {
+    const matches: AuditEntry[] = [];
+    const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line) as AuditEntry;
+        } catch {
+          continue;
+        }
+
+        if (this.matches(entry, filter)) {
+          matches.push(entry);
+          if (matches.length > filter.limit + 1) {
+            matches.shift();
+          }
+        }
+      }
+    } catch (error) {
+      logger.warn(`Could not read audit log: ${file}`, { error: (error as Error).message });
+    }
+
+    return matches;
+  }
+
+  /**
+   * Checks an entry against the query filters
+   */
+  private static matches(entry: AuditEntry, filter: AuditQuery): boolean {
+    const time = Date.parse(entry.timestamp);
+
+    if (filter.actor && entry.actor !== filter.actor) {
+      return false;
+    }
+    if (filter.operation && entry.operation !== filter.operation) {
+      return false;
+    }
+    if ((filter.from && !(time >= filter.from.getTime())) || (filter.to && !(time <= filter.to.getTime()))) {
+      return false;
+    }
+    if (filter.pathPrefix) {
+      const prefix = path.resolve(filter.pathPrefix);
+      const within = prefix.endsWith(path.sep) ? prefix : prefix + path.sep;
+      return Array.isArray(entry.paths) &&
+        entry.paths.some(entryPath => entryPath === prefix || entryPath.startsWith(within));
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { ApiKeyConfig, AuthConfig, AuthOperation, Principal } from '../types/auth';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const OPERATIONS: readonly AuthOperation[] = ['list', 'read', 'write', 'audit'];
+
+/**
+ * Reads and checks the roles and API keys file named by AUTH_CONFIG. A broken
+ * file stops the server at startup rather than leaving it open.
+ */
+const loadConfig = (configPath: string | undefined): AuthConfig | null => {
+  if (!configPath) {
+    return null;
+  }
+
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf8')) as Partial<AuthConfig>;
+  const roles = config.roles ?? {};
+  const apiKeys = config.apiKeys ?? [];
+
+  for (const [name, role] of Object.entries(roles)) {
+    if (!Array.isArray(role.operations) || role.operations.some(operation => !OPERATIONS.includes(operation))) {
+      throw new Error(`Role ${name} in ${configPath} must list operations from: ${OPERATIONS.join(', ')}`);
+    }
+    if (role.roots !== undefined && (!Array.isArray(role.roots) || role.roots.some(root => !path.isAbsolute(root)))) {
+      throw new Error(`Role ${name} in ${configPath} must list absolute roots`);
+    }
+  }
+
+  for (const key of apiKeys) {
+    if (!key.id || !/^[0-9a-f]{64}$/i.test(key.keySha256 ?? '')) {
+      throw new Error(`API keys in ${configPath} need an id and a hex keySha256`);
+    }
+    const unknownRole = key.roles?.find(role => !roles[role]);
+    if (!Array.isArray(key.roles) || unknownRole) {
+      throw new Error(`API key ${key.id} in ${configPath} refers to unknown role ${unknownRole ?? ''}`);
+    }
+  }
+
+  return { roles, apiKeys };
+};
+
+/**
+ * Authenticates API requests and maps the caller's roles to the operations
+ * and roots they may use.
+ *
+ * Callers present either a static API key, whose SHA-256 is listed in the
+ * AUTH_CONFIG file, or a JWT signed with HS256 (JWT_SECRET) or RS256
+ * (JWT_PUBLIC_KEY_FILE) whose JWT_ROLES_CLAIM names roles from the same file.
+ * Authentication is off when AUTH_CONFIG is not set.
+ */
+export class AuthService {
+  private static readonly config = loadConfig(process.env.AUTH_CONFIG);
+  private static readonly jwtSecret = process.env.JWT_SECRET;
+  private static readonly jwtPublicKey = process.env.JWT_PUBLIC_KEY_FILE
+    ? fs.readFileSync(process.env.JWT_PUBLIC_KEY_FILE, 'utf8')
+    : undefined;
+  private static readonly jwtIssuer = process.env.JWT_ISSUER;
+  private static readonly jwtAudience = process.env.JWT_AUDIENCE;
+  private static readonly jwtRolesClaim = process.env.JWT_ROLES_CLAIM || 'roles';
+
+  private static readonly resolvedRoots = new Map<string, Promise<string[] | null>>();
+
+  /**
+   * Whether requests must be authenticated
+   */
+  public static isEnabled(): boolean {
+    return this.config !== null;
+  }
+
+  /**
+   * Identifies the caller from a credential: a JWT if it has the three
+   * dot-separated parts of one, an API key otherwise
+   */
+  public static authenticate(credential: string): Principal {
+    const principal = credential.split('.').length === 3
+      ? this.verifyJwt(credential)
+      : this.verifyApiKey(credential);
+
+    const roles = (this.config as AuthConfig).roles;
+    const knownRoles = principal.roles.filter(role => roles[role]);
+    if (knownRoles.length === 0) {
+      throw createError('Credentials do not grant any role', 403, 'NO_ROLE');
+    }
+
+    return { ...principal, roles: knownRoles };
+  }
+
+  /**
+   * Looks up an API key by the hash of its value
+   */
+  private static verifyApiKey(key: string): Principal {
+    const hash = crypto.createHash('sha256').update(key).digest();
+    const match = (this.config as AuthConfig).apiKeys.find((apiKey: ApiKeyConfig) =>
+      crypto.timingSafeEqual(Buffer.from(apiKey.keySha256, 'hex'), hash));
+
+    if (!match) {
+      throw createError('Invalid API key', 401, 'INVALID_CREDENTIALS');
+    }
+
+    return { id: `key:${match.id}`, type: 'apiKey', roles: match.roles };
+  }
+
+  /**
+   * Verifies a JWT's signature, expiry, issuer and audience. The key is picked
+   * by the token's algorithm, and only algorithms with a configured key are
+   * accepted, so an HS256 token cannot be checked against the RS256 key.
+   */
+  private static verifyJwt(token: string): Principal {
+    const algorithm = jwt.decode(token, { complete: true })?.header.alg;
+    const key = algorithm === 'HS256' ? this.jwtSecret : algorithm === 'RS256' ? this.jwtPublicKey : undefined;
+    if (!algorithm || !key) {
+      throw createError('Unsupported token', 401, 'INVALID_CREDENTIALS');
+    }
+
+    let payload: jwt.JwtPayload;
+    try {
+      payload = jwt.verify(token, key, {
+        algorithms: [algorithm as jwt.Algorithm],
+        ...(this.jwtIssuer && { issuer: this.jwtIssuer }),
+        ...(this.jwtAudience && { audience: this.jwtAudience }),
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      const expired = error instanceof jwt.TokenExpiredError;
+      throw createError(expired ? 'Token has expired' : 'Invalid token', 401, expired ? 'TOKEN_EXPIRED' : 'INVALID_CREDENTIALS');
+    }
+
+    const claim: unknown = payload[this.jwtRolesClaim];
+    const roles = (Array.isArray(claim) ? claim : typeof claim === 'string' ? claim.split(/[ ,]+/) : [])
+      .filter((role): role is string => typeof role === 'string' && role.length > 0);
+
+    return { id: `jwt:${payload.sub ?? 'anonymous'}`, type: 'jwt', roles };
+  }
+
+  /**
+   * Returns the paths a principal may use for an operation: the roots of
+   * every role granting it, or null when one of those roles is not limited to
+   * particular roots. Throws 403 when no role grants the operation.
+   */
+  public static async getRoots(principal: Principal, operation: AuthOperation): Promise<string[] | null> {
+    const roles = (this.config as AuthConfig).roles;
+    const granting = principal.roles.filter(role => roles[role]?.operations.includes(operation));
+
+    if (granting.length === 0) {
+      throw createError(`Not permitted to ${operation}`, 403, 'OPERATION_NOT_PERMITTED');
+    }
+
+    const rootLists = await Promise.all(granting.map(role => this.resolveRoleRoots(role)));
+    if (rootLists.some(roots => roots === null)) {
+      return null;
+    }
+
+    return Array.from(new Set(rootLists.flat() as string[]));
+  }
+
+  /**
+   * Resolves a role's roots through realpath once, like ALLOWED_ROOTS. Each
+   * root is kept in its configured form as well, so requested paths under a
+   * symlinked role root pass the check made before they are resolved.
+   */
+  private static resolveRoleRoots(role: string): Promise<string[] | null> {
+    let resolved = this.resolvedRoots.get(role);
+    if (!resolved) {
+      const roots = (this.config as AuthConfig).roles[role]?.roots;
+      resolved = roots
+        ? Promise.all(roots.map(async (root) => {
+          try {
+            return [path.resolve(root), await fs.promises.realpath(root)];
+          } catch {
+            logger.warn(`Root of role ${role} does not exist: ${root}`);
+            return [path.resolve(root)];
+          }
+        })).then(forms => Array.from(new Set(forms.flat())))
+        : Promise.resolve(null);
+      this.resolvedRoots.set(role, resolved);
+    }
+
+    return resolved;
+  }
+}
@@ -0,0 +1,336 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import {
+  ChecksumAlgorithm,
+  FileChecksumResponse,
+  ManifestEntry,
+  ManifestVerificationResponse,
+  WalkEntry,
+} from '../types/directory';
+import { DirectoryService } from './directoryService';
+import { createError } from '../middleware/errorHandler';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { logger } from '../utils/logger';
+import { PathGuard } from '../utils/pathGuard';
+
+const stat = promisify(fs.stat);
+
+/**
+ * Computes file checksums and creates and verifies `sha256sum`-style
+ * manifests (`<hex digest>  <relative path>` per line). Files are streamed
+ * through the hash, so memory use does not depend on file size.
+ */
+export class ChecksumService {
+  public static readonly ALGORITHMS: readonly ChecksumAlgorithm[] = ['md5', 'sha1', 'sha256', 'sha512'];
+  private static readonly HASH_CONCURRENCY = 4;
+  private static readonly MANIFEST_BATCH_SIZE = 16;
+  private static readonly DIGEST_LENGTHS: Record<number, ChecksumAlgorithm> = {
+    32: 'md5',
+    40: 'sha1',
+    64: 'sha256',
+    128: 'sha512',
+  };
+
+  /**
+   * Streams a file once through every requested hash; aborting `signal` stops
+   * reading and rejects
+   */
+  private static hashFile<T extends ChecksumAlgorithm>(
+    filePath: string,
+    algorithms: readonly T[],
+    signal?: AbortSignal
+  ): Promise<Record<T, string>> {
+    return new Promise((resolve, reject) => {
+      const hashes = algorithms.map((algorithm) => crypto.createHash(algorithm));
+      const stream = fs.createReadStream(filePath, { signal });
+
+      stream.on('data', (chunk) => hashes.forEach((hash) => hash.update(chunk)));
+      stream.on('error', reject);
+      stream.on('end', () => {
+        const digests = {} as Record<T, string>;
+        algorithms.forEach((algorithm, index) => {
+          digests[algorithm] = (hashes[index] as crypto.Hash).digest('hex');
+        });
+        resolve(digests);
+      });
+    });
+  }
+
+  /**
+   * Computes one or more checksums of a single file
+   */
+  public static async getFileChecksums(filePath: string, algorithms: ChecksumAlgorithm[]): Promise<FileChecksumResponse> {
+    const normalizedPath = await DirectoryService.validatePath(filePath);
+    const stats = await stat(normalizedPath);
+
+    if (!stats.isFile()) {
+      throw createError('Path is not a regular file, use /checksum/manifest for directories', 400);
+    }
+
+    const startedAt = Date.now();
+    logger.info(`Computing checksums: ${normalizedPath}`, { algorithms, size: stats.size });
+    const checksums = await this.hashFile(normalizedPath, algorithms);
+
+    return {
+      path: normalizedPath,
+      name: path.basename(normalizedPath),
+      size: stats.size,
+      checksums,
+      durationMs: Date.now() - startedAt,
+      computedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Formats a manifest line the way `sha256sum` does, escaping backslashes and
+   * newlines in the name and marking such lines with a leading backslash
+   */
+  private static formatManifestLine(hash: string, relativePath: string): string {
+    if (!/[\\\n\r]/.test(relativePath)) {
+      return `${hash}  ${relativePath}\n`;
+    }
+
+    return `\\${hash}  ${this.escapeManifestText(relativePath)}\n`;
+  }
+
+  /**
+   * Escapes backslashes and line breaks the way sha256sum does
+   */
+  private static escapeManifestText(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/\r/g, '\\r');
+  }
+
+  /**
+   * Lists the regular files below a directory, skipping denied paths, until
+   * `signal` is aborted. Symbolic links are not followed, like `find -type f`.
+   */
+  private static async *walkFiles(
+    normalizedPath: string,
+    includeHidden: boolean,
+    signal?: AbortSignal
+  ): AsyncGenerator<WalkEntry> {
+    for await (const entry of DirectoryService.walk(normalizedPath, Infinity, includeHidden)) {
+      if (signal?.aborted) {
+        return;
+      }
+      if (entry.dirent.isFile() && !PathGuard.isDenied(entry.path)) {
+        yield entry;
+      }
+    }
+  }
+
+  /**
+   * Validates a directory and returns a generator of manifest lines for every
+   * file below it. Lines are produced as files are hashed; stopping the
+   * iteration stops the walk, and aborting `signal` also stops the files
+   * being hashed.
+   */
+  public static async createManifest(
+    dirPath: string,
+    algorithm: ChecksumAlgorithm,
+    includeHidden: boolean,
+    signal?: AbortSignal
+  ): Promise<AsyncGenerator<string>> {
+    const normalizedPath = await DirectoryService.validatePath(dirPath);
+    const stats = await stat(normalizedPath);
+
+    if (!stats.isDirectory()) {
+      throw createError('Path is not a directory', 400);
+    }
+
+    logger.info(`Creating checksum manifest: ${normalizedPath}`, { algorithm, includeHidden });
+    return this.generateManifest(normalizedPath, algorithm, includeHidden, signal);
+  }
+
+  /**
+   * Hashes files in small batches so a few reads overlap, keeping walk order.
+   * Files that cannot be read are left out and listed in comment lines at the
+   * end, which checksum tools (and verifyManifest) skip.
+   */
+  private static async *generateManifest(
+    normalizedPath: string,
+    algorithm: ChecksumAlgorithm,
+    includeHidden: boolean,
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    let batch: WalkEntry[] = [];
+    const unreadable: string[] = [];
+
+    const hashBatch = async (entries: WalkEntry[]): Promise<string[]> => {
+      const digests = await mapWithConcurrency(entries, this.HASH_CONCURRENCY, async (entry) => {
+        try {
+          return (await this.hashFile(entry.path, [algorithm], signal))[algorithm];
+        } catch (error) {
+          if (!signal?.aborted) {
+            logger.warn(`Cannot hash file for manifest: ${entry.path}`, { error: (error as Error).message });
+            unreadable.push(`# Could not read ${this.escapeManifestText(`${entry.relativePath}: ${(error as Error).message}`)}\n`);
+          }
+          return undefined;
+        }
+      });
+      return entries.flatMap((entry, index) => {
+        const digest = digests[index];
+        return digest ? [this.formatManifestLine(digest, entry.relativePath)] : [];
+      });
+    };
+
+    for await (const entry of this.walkFiles(normalizedPath, includeHidden, signal)) {
+      batch.push(entry);
+      if (batch.length >= this.MANIFEST_BATCH_SIZE) {
+        yield* await hashBatch(batch);
+        batch = [];
+      }
+    }
+
+    yield* await hashBatch(batch);
+    yield* unreadable;
+  }
+
+  /**
+   * Parses `sha256sum`-style manifest text (also md5sum, sha1sum and
+   * sha512sum output, with or without the `*` binary marker). The algorithm
+   * is inferred from the digest length unless given.
+   */
+  private static parseManifest(
+    manifest: string,
+    algorithm?: ChecksumAlgorithm
+  ): { algorithm: ChecksumAlgorithm; entries: ManifestEntry[] } {
+    const entries = new Map<string, string>();
+    let detected = algorithm;
+
+    manifest.split('\n').forEach((rawLine, index) => {
+      const line = rawLine.replace(/\r$/, '');
+      if (!line.trim() || line.startsWith('#')) {
+        return;
+      }
+
+      const match = /^(\\?)([0-9a-fA-F]+) [ *](.+)$/.exec(line);
+      const lineAlgorithm = match ? this.DIGEST_LENGTHS[(match[2] as string).length] : undefined;
+      if (!match || !lineAlgorithm || (detected && lineAlgorithm !== detected)) {
+        throw createError(`Invalid manifest line ${index + 1}`, 400, 'INVALID_MANIFEST');
+      }
+      detected = lineAlgorithm;
+
+      const name = match[1]
+        ? (match[3] as string).replace(/\\(\\|n|r)/g, (_, c: string) => (c === 'n' ? '\n' : c === 'r' ? '\r' : '\\'))
+        : (match[3] as string);
+      const relativePath = path.posix.normalize(name).replace(/^\.\//, '');
+      if (path.posix.isAbsolute(relativePath) || relativePath === '..' || relativePath.startsWith('../')) {
+        throw createError(`Manifest line ${index + 1} points outside the directory`, 400, 'INVALID_MANIFEST');
+      }
+
+      if (!entries.has(relativePath)) {
+        entries.set(relativePath, (match[2] as string).toLowerCase());
+      }
+    });
+
+    if (!detected) {
+      throw createError('Manifest is empty', 400, 'INVALID_MANIFEST');
+    }
+
+    return {
+      algorithm: detected,
+      entries: Array.from(entries, ([entryPath, hash]) => ({ path: entryPath, hash })),
+    };
+  }
+
+  /**
+   * Verifies a directory against a manifest, reporting files that match, do
+   * not match, are missing from the directory, or are not in the manifest.
+   * Aborting `signal` stops the walk and the hashing early.
+   */
+  public static async verifyManifest(
+    dirPath: string,
+    manifest: string,
+    includeHidden: boolean,
+    algorithm?: ChecksumAlgorithm,
+    signal?: AbortSignal
+  ): Promise<ManifestVerificationResponse> {
+    const normalizedPath = await DirectoryService.validatePath(dirPath);
+    const stats = await stat(normalizedPath);
+
+    if (!stats.isDirectory()) {
+      throw createError('Path is not a directory', 400);
+    }
+
+    const parsed = this.parseManifest(manifest, algorithm);
+    const startedAt = Date.now();
+    logger.info(`Verifying checksum manifest: ${normalizedPath}`, {
+      algorithm: parsed.algorithm,
+      entries: parsed.entries.length,
+    });
+
+    const files = new Map<string, string>();
+    for await (const entry of this.walkFiles(normalizedPath, includeHidden, signal)) {
+      files.set(entry.relativePath, entry.path);
+    }
+
+    const result: ManifestVerificationResponse = {
+      path: normalizedPath,
+      algorithm: parsed.algorithm,
+      matched: [],
+      mismatched: [],
+      missing: [],
+      extra: [],
+      unreadable: [],
+      metadata: {
+        manifestEntries: parsed.entries.length,
+        filesChecked: 0,
+        ok: false,
+        durationMs: 0,
+        verifiedAt: '',
+      },
+    };
+
+    const present = parsed.entries.filter((entry) => {
+      if (files.has(entry.path)) {
+        return true;
+      }
+      result.missing.push(entry.path);
+      return false;
+    });
+
+    const actual = await mapWithConcurrency(present, this.HASH_CONCURRENCY, async (entry) => {
+      if (signal?.aborted) {
+        return null;
+      }
+
+      try {
+        return (await this.hashFile(files.get(entry.path) as string, [parsed.algorithm], signal))[parsed.algorithm];
+      } catch (error) {
+        if (!signal?.aborted) {
+          result.unreadable.push({ path: entry.path, error: (error as Error).message });
+        }
+        return null;
+      }
+    });
+
+    present.forEach((entry, index) => {
+      const hash = actual[index];
+      if (hash === entry.hash) {
+        result.matched.push(entry.path);
+      } else if (hash) {
+        result.mismatched.push({ path: entry.path, expected: entry.hash, actual: hash });
+      }
+    });
+
+    const listed = new Set(parsed.entries.map((entry) => entry.path));
+    result.extra = Array.from(files.keys()).filter((filePath) => !listed.has(filePath)).sort();
+
+    result.metadata.filesChecked = present.length;
+    result.metadata.ok = result.matched.length === parsed.entries.length && result.extra.length === 0;
+    result.metadata.durationMs = Date.now() - startedAt;
+    result.metadata.verifiedAt = new Date().toISOString();
+
+    logger.info(`Verified checksum manifest: ${normalizedPath}`, {
+      matched: result.matched.length,
+      mismatched: result.mismatched.length,
+      missing: result.missing.length,
+      extra: result.extra.length,
+    });
+
+    return result;
+  }
+}
@@ -2,52 +2,84 @@ import fs from 'fs';
 import path from 'path';
 import { promisify } from 'util';
 import moment from 'moment';
-import { FileInfo, DirectoryListingResponse, DirectoryMetadata } from '../types/directory';
+import {
+  FileInfo,
+  SymlinkTargetType,
+  DirectoryListingResponse,
+  DirectoryMetadata,
+  DirectoryTreeNode,
+  DirectoryTreeResponse,
+  DirectoryStreamRecord,
+  ListingEntry,
+  ListingFilters,
+  ListingSnapshot,
+  ListingSort,
+  ListingSortKey,
+  WalkEntry,
+} from '../types/directory';
 import { createError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import { PathGuard } from '../utils/pathGuard';
+import { AccountNames } from '../utils/accounts';
+import { SCAN_CONCURRENCY, mapWithConcurrency } from '../utils/concurrency';
+import { globToRegExp } from '../utils/glob';
+import { observeScan } from '../utils/metrics';
+import { getRequestContext, recordAccessedPath } from '../utils/requestContext';
+import { ListingSnapshotService } from './listingSnapshotService';
+import { ListingCacheService } from './listingCacheService';
 
 const stat = promisify(fs.stat);
+const lstat = promisify(fs.lstat);
+const readlink = promisify(fs.readlink);
+const realpath = promisify(fs.realpath);
 const readdir = promisify(fs.readdir);
 const access = promisify(fs.access);
 
 export class DirectoryService {
-  private static readonly MAX_PATH_LENGTH = 4096;
-  private static readonly RESTRICTED_PATHS = [
-    '/etc/shadow',
-    '/etc/passwd',
-    'C:\\Windows\\System32\\config',
-    'C:\\Windows\\System32\\drivers\\etc',
-  ];
+  public static readonly SORT_KEYS: readonly ListingSortKey[] = ['name', 'size', 'modified', 'created', 'type', 'extension', 'owner'];
+  public static readonly DEFAULT_SORT: ListingSort = {
+    keys: ['name'],
+    orders: ['asc'],
+    natural: true,
+    caseSensitive: false,
+    directoriesFirst: false,
+  };
+
+  // Keys that can be compared without a full FileInfo
+  private static readonly DIRENT_SORT_KEYS: readonly ListingSortKey[] = ['name', 'type', 'extension'];
 
   /**
-   * Validates if the given path is safe to access
+   * Validates if the given path is safe to access and returns its real,
+   * absolute location. All filesystem access goes through the PathGuard, and
+   * the path is recorded for the audit log: the real path when it is allowed,
+   * the requested one when it is rejected.
    */
-  private static async validatePath(dirPath: string): Promise<void> {
-    if (!dirPath || dirPath.length > this.MAX_PATH_LENGTH) {
-      throw createError('Invalid path length', 400);
+  public static async validatePath(dirPath: string): Promise<string> {
+    let resolvedPath: string;
+    try {
+      resolvedPath = await PathGuard.resolve(dirPath);
+    } catch (error) {
+      recordAccessedPath(path.resolve(dirPath));
+      throw error;
     }
 
-    // Normalize path and check for path traversal
-    const normalizedPath = path.normalize(dirPath);
-    if (normalizedPath.includes('..')) {
-      throw createError('Path traversal not allowed', 403);
-    }
+    recordAccessedPath(resolvedPath);
+    return resolvedPath;
+  }
 
-    // Check against restricted paths
-    const isRestricted = this.RESTRICTED_PATHS.some(restrictedPath => 
-      normalizedPath.toLowerCase().includes(restrictedPath.toLowerCase())
-    );
-    
-    if (isRestricted) {
-      throw createError('Access to this path is restricted', 403);
-    }
+  /**
+   * Formats the permission bits of a mode like `ls -l` does, e.g. `rwxr-xr-x`,
+   * including the setuid, setgid and sticky bits
+   */
+  public static formatSymbolicMode(mode: number): string {
+    const triplet = (bits: number, special: boolean, specialChar: string): string =>
+      (bits & 4 ? 'r' : '-') +
+      (bits & 2 ? 'w' : '-') +
+      (special ? (bits & 1 ? specialChar : specialChar.toUpperCase()) : (bits & 1 ? 'x' : '-'));
 
-    // Check if path exists
-    try {
-      await access(normalizedPath, fs.constants.R_OK);
-    } catch (error) {
-      throw createError('Path does not exist or is not readable', 404);
-    }
+    return triplet(mode >> 6, (mode & 0o4000) !== 0, 's') +
+      triplet(mode >> 3, (mode & 0o2000) !== 0, 's') +
+      triplet(mode, (mode & 0o1000) !== 0, 't');
   }
 
   /**
@@ -63,7 +95,10 @@ export class DirectoryService {
       executable: false,
       owner: 'unknown',
       group: 'unknown',
+      uid: null,
+      gid: null,
       mode: mode.toString(8),
+      symbolicMode: this.formatSymbolicMode(mode),
     };
 
     try {
@@ -84,44 +119,128 @@ export class DirectoryService {
       permissions.executable = true;
     } catch {}
 
-    // On Unix systems, extract owner and group info
-    if (!isWindows && stats.uid !== undefined && stats.gid !== undefined) {
-      try {
-        const os = require('os');
-        const userInfo = os.userInfo();
-        permissions.owner = userInfo.username || stats.uid.toString();
-        permissions.group = stats.gid.toString();
-      } catch {
-        permissions.owner = stats.uid.toString();
-        permissions.group = stats.gid.toString();
-      }
+    // On Unix systems, resolve the owner and group names from the account databases
+    if (!isWindows) {
+      permissions.uid = stats.uid;
+      permissions.gid = stats.gid;
+      permissions.owner = await AccountNames.getUserName(stats.uid);
+      permissions.group = await AccountNames.getGroupName(stats.gid);
     }
 
     return permissions;
   }
 
   /**
-   * Converts file stats to FileInfo object
+   * Converts file stats to FileInfo object. Symbolic links are described with
+   * lstat/readlink; with followSymlinks they take the type, size and dates of
+   * their target instead, as long as the target is readable and inside the
+   * allowed roots. Broken links are always reported as links.
    */
-  private static async createFileInfo(filePath: string, fileName: string): Promise<FileInfo> {
-    const stats = await stat(filePath);
+  public static async createFileInfo(filePath: string, fileName: string, followSymlinks: boolean = false): Promise<FileInfo> {
+    let stats = await lstat(filePath);
+    let link: Pick<FileInfo, 'linkTarget' | 'targetType' | 'isBrokenLink'> | undefined;
+
+    if (stats.isSymbolicLink()) {
+      const target = await readlink(filePath);
+      link = {
+        linkTarget: path.resolve(path.dirname(filePath), target),
+        isBrokenLink: true,
+      };
+
+      try {
+        const targetStats = await stat(filePath);
+        link.targetType = this.getTargetType(targetStats);
+        link.isBrokenLink = false;
+
+        if (followSymlinks && await PathGuard.isAllowed(await realpath(filePath))) {
+          stats = targetStats;
+        }
+      } catch {
+        // Dangling link or target we cannot stat, keep the link itself
+      }
+    }
+
     const permissions = await this.getFilePermissions(filePath, stats);
+    const isSymlink = stats.isSymbolicLink();
     const isDirectory = stats.isDirectory();
-    const extension = isDirectory ? '' : path.extname(fileName).toLowerCase();
+    const extension = isDirectory || isSymlink ? '' : path.extname(fileName).toLowerCase();
     
     return {
       name: fileName,
       path: filePath,
-      size: isDirectory ? 0 : stats.size,
+      size: isDirectory || isSymlink ? 0 : stats.size,
       extension,
-      type: isDirectory ? 'directory' : 'file',
+      type: isSymlink ? 'symlink' : isDirectory ? 'directory' : 'file',
       createdDate: moment(stats.birthtime).toISOString(),
       modifiedDate: moment(stats.mtime).toISOString(),
       permissions,
-      isHidden: fileName.startsWith('.') || (process.platform === 'win32' && fileName.startsWith('$')),
+      isHidden: this.isHiddenName(fileName),
+      ...link,
     };
   }
 
+  /**
+   * Classifies the target of a symbolic link
+   */
+  private static getTargetType(stats: fs.Stats): SymlinkTargetType {
+    if (stats.isDirectory()) {
+      return 'directory';
+    }
+
+    return stats.isFile() ? 'file' : 'other';
+  }
+
+  /**
+   * Checks whether a file name is considered hidden on this platform
+   */
+  public static isHiddenName(fileName: string): boolean {
+    return fileName.startsWith('.') || (process.platform === 'win32' && fileName.startsWith('$'));
+  }
+
+  /**
+   * Walks a directory tree depth-first, yielding every entry below the base
+   * path. Symlinked directories are yielded but not descended into to avoid
+   * cycles; unreadable directories are skipped with a warning.
+   */
+  public static async *walk(
+    basePath: string,
+    maxDepth: number = Infinity,
+    includeHidden: boolean = false
+  ): AsyncGenerator<WalkEntry> {
+    const stack: Array<{ dirPath: string; depth: number }> = [{ dirPath: basePath, depth: 0 }];
+
+    for (let entry = stack.pop(); entry; entry = stack.pop()) {
+      const { dirPath, depth } = entry;
+
+      let dirents: fs.Dirent[];
+      try {
+        dirents = await readdir(dirPath, { withFileTypes: true });
+      } catch (error) {
+        logger.warn(`Failed to read directory: ${dirPath}`, { error: (error as Error).message });
+        continue;
+      }
+
+      for (const dirent of dirents) {
+        if (!includeHidden && this.isHiddenName(dirent.name)) {
+          continue;
+        }
+
+        const filePath = path.join(dirPath, dirent.name);
+        if (dirent.isDirectory() && depth < maxDepth) {
+          stack.push({ dirPath: filePath, depth: depth + 1 });
+        }
+
+        yield {
+          name: dirent.name,
+          path: filePath,
+          relativePath: path.relative(basePath, filePath).split(path.sep).join('/'),
+          depth: depth + 1,
+          dirent,
+        };
+      }
+    }
+  }
+
   /**
    * Lists directory contents with pagination and metadata
    */
@@ -130,13 +249,12 @@ export class DirectoryService {
     page: number = 1,
     limit: number = 100,
     includeHidden: boolean = false,
-    sortBy: 'name' | 'size' | 'modified' | 'type' = 'name',
-    sortOrder: 'asc' | 'desc' = 'asc'
+    sort: ListingSort = this.DEFAULT_SORT,
+    followSymlinks: boolean = false,
+    filters: ListingFilters = { extensions: [] }
   ): Promise<DirectoryListingResponse> {
-    await this.validatePath(dirPath);
-    
-    const normalizedPath = path.resolve(dirPath);
-    logger.info(`Listing directory: ${normalizedPath}`, { page, limit, sortBy, sortOrder });
+    const normalizedPath = await this.validatePath(dirPath);
+    logger.info(`Listing directory: ${normalizedPath}`, { page, limit, sort, followSymlinks, filters });
 
     // Check if path is a directory
     const pathStats = await stat(normalizedPath);
@@ -144,84 +262,421 @@ export class DirectoryService {
       throw createError('Path is not a directory', 400);
     }
 
-    // Read directory contents
-    const fileNames = await readdir(normalizedPath);
-    
-    // Create FileInfo objects for all items
-    const allItems: FileInfo[] = [];
-    const promises = fileNames.map(async (fileName) => {
-      try {
-        const filePath = path.join(normalizedPath, fileName);
-        const fileInfo = await this.createFileInfo(filePath, fileName);
-        
-        // Filter hidden files if not requested
-        if (!includeHidden && fileInfo.isHidden) {
+    // Served from the cache while the directory is unchanged, which also keeps
+    // the snapshot (and thus the cursors and ETag) stable between refreshes.
+    // Links are only followed inside the caller's roots, so callers confined
+    // to different roots do not share listings.
+    const scopedRoots = getRequestContext()?.roots ?? null;
+    const cacheKey = JSON.stringify(['list', normalizedPath, includeHidden, followSymlinks, sort, filters, scopedRoots]);
+    const cached = ListingCacheService.get<ListingSnapshot>(cacheKey, normalizedPath, pathStats.mtimeMs);
+    if (cached) {
+      ListingSnapshotService.retain(cached);
+      return this.paginate(cached.path, cached.entries, cached.metadata, (page - 1) * limit, limit, cached);
+    }
+
+    // Date filters need the full FileInfo, the others work on the dirent and size
+    const needsInfo = Boolean(filters.modifiedAfter || filters.modifiedBefore || filters.createdAfter || filters.createdBefore);
+    const startedAt = Date.now();
+    let entries = await this.scanEntries(normalizedPath, includeHidden, followSymlinks, sort, needsInfo);
+    observeScan('list', startedAt, entries.length);
+
+    const matches = this.createListingFilter(filters);
+    if (matches) {
+      entries = entries.filter(matches);
+    }
+    this.sortEntries(entries, sort);
+
+    const snapshot = ListingSnapshotService.create(normalizedPath, entries, this.summarizeEntries(entries));
+    ListingCacheService.set(cacheKey, normalizedPath, pathStats.mtimeMs, snapshot);
+
+    return this.paginate(normalizedPath, entries, snapshot.metadata, (page - 1) * limit, limit, snapshot);
+  }
+
+  /**
+   * Reads a directory into listing entries, stat'ing with bounded concurrency
+   */
+  private static async scanEntries(
+    normalizedPath: string,
+    includeHidden: boolean,
+    followSymlinks: boolean,
+    sort: ListingSort,
+    needsInfo: boolean
+  ): Promise<ListingEntry[]> {
+    // Dirent types tell files, directories and links apart without a stat
+    const dirents = (await readdir(normalizedPath, { withFileTypes: true }))
+      .filter(dirent => includeHidden || !this.isHiddenName(dirent.name));
+
+    let entries: ListingEntry[];
+    if (!followSymlinks && !needsInfo && sort.keys.every(key => this.DIRENT_SORT_KEYS.includes(key))) {
+      // Name, type and extension sorts only need the dirents, so the full FileInfo is
+      // built for the entries of the requested page alone. Regular files still
+      // get a single lstat for the size total.
+      entries = await mapWithConcurrency(dirents, SCAN_CONCURRENCY, async (dirent): Promise<ListingEntry> => {
+        const entry: ListingEntry = {
+          name: dirent.name,
+          path: path.join(normalizedPath, dirent.name),
+          type: this.getDirentType(dirent),
+          size: 0,
+          info: null,
+        };
+
+        if (entry.type === 'file') {
+          try {
+            entry.size = (await lstat(entry.path)).size;
+          } catch {
+            // Removed since readdir, it is skipped when its page is built
+          }
+        }
+
+        return entry;
+      });
+    } else {
+      const results = await mapWithConcurrency(dirents, SCAN_CONCURRENCY, async (dirent) => {
+        try {
+          const fileInfo = await this.createFileInfo(path.join(normalizedPath, dirent.name), dirent.name, followSymlinks);
+          return this.toListingEntry(fileInfo);
+        } catch (error) {
+          logger.warn(`Failed to get info for file: ${dirent.name}`, { error: (error as Error).message });
           return null;
         }
-        
-        return fileInfo;
-      } catch (error) {
-        logger.warn(`Failed to get info for file: ${fileName}`, { error: (error as Error).message });
-        return null;
+      });
+      entries = results.filter((entry): entry is ListingEntry => entry !== null);
+    }
+
+    return entries;
+  }
+
+  /**
+   * Builds a predicate for the listing filters, or null when none are set.
+   * All filters but the date ranges work on entries without a FileInfo.
+   */
+  public static createListingFilter(filters: ListingFilters): ((entry: ListingEntry) => boolean) | null {
+    const checks: Array<(entry: ListingEntry) => boolean> = [];
+
+    if (filters.type) {
+      checks.push(entry => entry.type === filters.type);
+    }
+
+    if (filters.extensions.length > 0) {
+      checks.push(entry => filters.extensions.includes(this.getEntryExtension(entry)));
+    }
+
+    if (filters.name) {
+      const name = filters.name.toLowerCase();
+      checks.push(entry => entry.name.toLowerCase().includes(name));
+    }
+
+    if (filters.pattern) {
+      const regex = globToRegExp(filters.pattern);
+      checks.push(entry => regex.test(entry.name));
+    }
+
+    const { minSize, maxSize } = filters;
+    if (minSize !== undefined) {
+      checks.push(entry => entry.size >= minSize);
+    }
+    if (maxSize !== undefined) {
+      checks.push(entry => entry.size <= maxSize);
+    }
+
+    const addDateRange = (field: 'modifiedDate' | 'createdDate', after?: string, before?: string): void => {
+      if (!after && !before) {
+        return;
       }
-    });
 
-    const results = await Promise.all(promises);
-    allItems.push(...results.filter((item): item is FileInfo => item !== null));
+      const from = after ? new Date(after).getTime() : -Infinity;
+      const to = before ? new Date(before).getTime() : Infinity;
+      checks.push((entry) => {
+        const time = entry.info ? new Date(entry.info[field]).getTime() : NaN;
+        return time >= from && time <= to;
+      });
+    };
+    addDateRange('modifiedDate', filters.modifiedAfter, filters.modifiedBefore);
+    addDateRange('createdDate', filters.createdAfter, filters.createdBefore);
 
-    // Sort items
-    allItems.sort((a, b) => {
-      let comparison = 0;
-      
-      switch (sortBy) {
+    return checks.length > 0 ? (entry) => checks.every(check => check(entry)) : null;
+  }
+
+  /**
+   * Returns the extension of a listing entry, the same way createFileInfo
+   * computes it
+   */
+  private static getEntryExtension(entry: ListingEntry): string {
+    return entry.info?.extension ?? (entry.type === 'file' ? path.extname(entry.name).toLowerCase() : '');
+  }
+
+  /**
+   * Classifies a directory entry from its dirent alone, the same way
+   * createFileInfo does when symlinks are not followed
+   */
+  private static getDirentType(dirent: fs.Dirent): FileInfo['type'] {
+    if (dirent.isSymbolicLink()) {
+      return 'symlink';
+    }
+
+    return dirent.isDirectory() ? 'directory' : 'file';
+  }
+
+  /**
+   * Wraps a fully built FileInfo as a listing entry
+   */
+  public static toListingEntry(fileInfo: FileInfo): ListingEntry {
+    return {
+      name: fileInfo.name,
+      path: fileInfo.path,
+      type: fileInfo.type,
+      size: fileInfo.size,
+      info: fileInfo,
+    };
+  }
+
+  /**
+   * Opens a directory for streaming. Validation happens up front, so errors
+   * can still be reported as a regular response before anything is streamed.
+   */
+  public static async streamDirectory(
+    dirPath: string,
+    includeHidden: boolean = false,
+    followSymlinks: boolean = false,
+    filters: ListingFilters = { extensions: [] }
+  ): Promise<AsyncGenerator<DirectoryStreamRecord>> {
+    const normalizedPath = await this.validatePath(dirPath);
+    logger.info(`Streaming directory: ${normalizedPath}`, { includeHidden, followSymlinks, filters });
+
+    const pathStats = await stat(normalizedPath);
+    if (!pathStats.isDirectory()) {
+      throw createError('Path is not a directory', 400);
+    }
+
+    const dir = await fs.promises.opendir(normalizedPath);
+    return this.readDirectoryStream(dir, normalizedPath, includeHidden, followSymlinks, this.createListingFilter(filters));
+  }
+
+  /**
+   * Yields entries in directory order as they are read and stat'ed, without
+   * holding the listing in memory, followed by a summary with the totals
+   */
+  private static async *readDirectoryStream(
+    dir: fs.Dir,
+    normalizedPath: string,
+    includeHidden: boolean,
+    followSymlinks: boolean,
+    matches: ((entry: ListingEntry) => boolean) | null
+  ): AsyncGenerator<DirectoryStreamRecord> {
+    const startedAt = Date.now();
+    let total = 0;
+    let totalFiles = 0;
+    let totalDirectories = 0;
+    let totalSize = 0;
+
+    try {
+      // Iterating the Dir closes it when the loop ends or the consumer stops early
+      for await (const dirent of dir) {
+        if (!includeHidden && this.isHiddenName(dirent.name)) {
+          continue;
+        }
+
+        let fileInfo: FileInfo;
+        try {
+          fileInfo = await this.createFileInfo(path.join(normalizedPath, dirent.name), dirent.name, followSymlinks);
+        } catch (error) {
+          logger.warn(`Failed to get info for file: ${dirent.name}`, { error: (error as Error).message });
+          continue;
+        }
+
+        if (matches && !matches(this.toListingEntry(fileInfo))) {
+          continue;
+        }
+
+        total++;
+        if (fileInfo.type === 'file') {
+          totalFiles++;
+          totalSize += fileInfo.size;
+        } else if (fileInfo.type === 'directory') {
+          totalDirectories++;
+        }
+
+        yield { type: 'entry', entry: fileInfo };
+      }
+    } catch (error) {
+      logger.error(`Failed to stream directory: ${normalizedPath}`, { error: (error as Error).message });
+      yield { type: 'error', message: 'Failed to read directory' };
+      return;
+    }
+
+    observeScan('stream', startedAt, total);
+    yield {
+      type: 'summary',
+      path: normalizedPath,
+      total,
+      metadata: {
+        totalFiles,
+        totalDirectories,
+        totalSize,
+        scannedAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Filters, sorts and paginates a full set of entries into a listing response
+   */
+  public static async buildListingResponse(
+    normalizedPath: string,
+    entries: ListingEntry[],
+    page: number,
+    limit: number,
+    sort: ListingSort,
+    filters: ListingFilters = { extensions: [] }
+  ): Promise<DirectoryListingResponse> {
+    const matches = this.createListingFilter(filters);
+    const allEntries = matches ? entries.filter(matches) : entries;
+
+    this.sortEntries(allEntries, sort);
+    const metadata = this.summarizeEntries(allEntries);
+
+    // Listings spanning several pages are kept as a snapshot for cursor paging
+    const snapshot = allEntries.length > limit
+      ? ListingSnapshotService.create(normalizedPath, allEntries, metadata)
+      : null;
+
+    return this.paginate(normalizedPath, allEntries, metadata, (page - 1) * limit, limit, snapshot);
+  }
+
+  /**
+   * Sorts listing entries in place. Names, extensions and owners are compared
+   * with a collator; entries that are equal on every key are ordered by name.
+   */
+  private static sortEntries(entries: ListingEntry[], sort: ListingSort): void {
+    const collator = new Intl.Collator(undefined, {
+      numeric: sort.natural,
+      // Case-sensitive sorts put upper case first among otherwise equal names
+      sensitivity: sort.caseSensitive ? 'variant' : 'accent',
+      caseFirst: sort.caseSensitive ? 'upper' : 'false',
+    });
+    const time = (date: string | undefined): number => (date ? new Date(date).getTime() : 0);
+
+    const compareKey = (key: ListingSortKey, a: ListingEntry, b: ListingEntry): number => {
+      switch (key) {
         case 'name':
-          comparison = a.name.localeCompare(b.name);
-          break;
+          return collator.compare(a.name, b.name);
         case 'size':
-          comparison = a.size - b.size;
-          break;
+          return a.size - b.size;
         case 'modified':
-          comparison = new Date(a.modifiedDate).getTime() - new Date(b.modifiedDate).getTime();
-          break;
+          return time(a.info?.modifiedDate) - time(b.info?.modifiedDate);
+        case 'created':
+          return time(a.info?.createdDate) - time(b.info?.createdDate);
         case 'type':
-          comparison = a.type.localeCompare(b.type);
-          break;
+          return a.type.localeCompare(b.type);
+        case 'extension':
+          return collator.compare(this.getEntryExtension(a), this.getEntryExtension(b));
+        case 'owner':
+          return collator.compare(a.info?.permissions.owner ?? '', b.info?.permissions.owner ?? '');
       }
-      
-      return sortOrder === 'desc' ? -comparison : comparison;
+    };
+
+    entries.sort((a, b) => {
+      // Directories stay on top whatever the sort order
+      if (sort.directoriesFirst && (a.type === 'directory') !== (b.type === 'directory')) {
+        return a.type === 'directory' ? -1 : 1;
+      }
+
+      for (let i = 0; i < sort.keys.length; i++) {
+        const comparison = compareKey(sort.keys[i] as ListingSortKey, a, b);
+        if (comparison !== 0) {
+          return (sort.orders[i] ?? sort.orders[0]) === 'desc' ? -comparison : comparison;
+        }
+      }
+
+      return collator.compare(a.name, b.name);
     });
+  }
 
-    // Calculate pagination
-    const total = allItems.length;
-    const totalPages = Math.ceil(total / limit);
-    const startIndex = (page - 1) * limit;
-    const endIndex = startIndex + limit;
-    const paginatedItems = allItems.slice(startIndex, endIndex);
+  /**
+   * Calculates the listing totals
+   */
+  private static summarizeEntries(entries: ListingEntry[]): DirectoryListingResponse['metadata'] {
+    const files = entries.filter(entry => entry.type === 'file');
+
+    return {
+      totalFiles: files.length,
+      totalDirectories: entries.filter(entry => entry.type === 'directory').length,
+      totalSize: files.reduce((sum, entry) => sum + entry.size, 0),
+      scannedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Serves the page a cursor points to from its listing snapshot, without
+   * re-reading the directory. Cursors can be passed on, so the snapshot's
+   * directory is checked against the current caller's roots again.
+   */
+  public static async listFromCursor(cursor: string, limit: number = 100): Promise<DirectoryListingResponse> {
+    const { id, offset } = ListingSnapshotService.decodeCursor(cursor);
+    const snapshot = ListingSnapshotService.get(id);
 
-    // Calculate metadata
-    const totalFiles = allItems.filter(item => item.type === 'file').length;
-    const totalDirectories = allItems.filter(item => item.type === 'directory').length;
-    const totalSize = allItems
-      .filter(item => item.type === 'file')
-      .reduce((sum, item) => sum + item.size, 0);
+    recordAccessedPath(snapshot.path);
+    if (!(await PathGuard.isAllowed(snapshot.path))) {
+      throw createError('Path is outside the allowed roots', 403, 'OUTSIDE_ALLOWED_ROOTS');
+    }
+
+    return this.paginate(snapshot.path, snapshot.entries, snapshot.metadata, offset, limit, snapshot);
+  }
+
+  /**
+   * Builds the FileInfo of entries that do not have one yet. Results are kept
+   * on the entries, so revisiting a snapshot page does not stat them again;
+   * entries that vanished since the directory was read are dropped.
+   */
+  private static async resolveEntries(entries: ListingEntry[]): Promise<FileInfo[]> {
+    const items = await mapWithConcurrency(entries, SCAN_CONCURRENCY, async (entry) => {
+      if (!entry.info) {
+        try {
+          entry.info = await this.createFileInfo(entry.path, entry.name);
+        } catch (error) {
+          logger.warn(`Failed to get info for file: ${entry.name}`, { error: (error as Error).message });
+        }
+      }
+      return entry.info;
+    });
+
+    return items.filter((item): item is FileInfo => item !== null);
+  }
+
+  /**
+   * Cuts one page out of a sorted listing, adding cursors when it is backed
+   * by a snapshot
+   */
+  private static async paginate(
+    listingPath: string,
+    allEntries: ListingEntry[],
+    metadata: DirectoryListingResponse['metadata'],
+    offset: number,
+    limit: number,
+    snapshot: ListingSnapshot | null
+  ): Promise<DirectoryListingResponse> {
+    const total = allEntries.length;
+    const totalPages = Math.ceil(total / limit);
+    const endIndex = offset + limit;
+    const hasNext = endIndex < total;
+    const hasPrevious = offset > 0;
 
     return {
-      path: normalizedPath,
-      items: paginatedItems,
+      path: listingPath,
+      items: await this.resolveEntries(allEntries.slice(offset, endIndex)),
       pagination: {
-        page,
+        page: Math.floor(offset / limit) + 1,
         limit,
         total,
         totalPages,
-        hasNext: page < totalPages,
-        hasPrevious: page > 1,
-      },
-      metadata: {
-        totalFiles,
-        totalDirectories,
-        totalSize,
-        scannedAt: new Date().toISOString(),
+        hasNext,
+        hasPrevious,
+        nextCursor: snapshot && hasNext ? ListingSnapshotService.encodeCursor(snapshot, endIndex) : null,
+        prevCursor: snapshot && hasPrevious
+          ? ListingSnapshotService.encodeCursor(snapshot, Math.max(0, offset - limit))
+          : null,
       },
+      metadata,
     };
   }
 
@@ -229,10 +684,10 @@ export class DirectoryService {
    * Gets metadata for a specific directory
    */
   public static async getDirectoryMetadata(dirPath: string): Promise<DirectoryMetadata> {
-    const normalizedPath = path.resolve(dirPath);
+    let normalizedPath = path.resolve(dirPath);
     
     try {
-      await this.validatePath(dirPath);
+      normalizedPath = await this.validatePath(dirPath);
       
       const stats = await stat(normalizedPath);
       const permissions = await this.getFilePermissions(normalizedPath, stats);
@@ -241,24 +696,34 @@ export class DirectoryService {
       let totalItems = 0;
       let totalSize = 0;
       
-      if (stats.isDirectory()) {
+      const cacheKey = JSON.stringify(['metadata', normalizedPath]);
+      const cached = stats.isDirectory()
+        ? ListingCacheService.get<{ totalItems: number; totalSize: number }>(cacheKey, normalizedPath, stats.mtimeMs)
+        : undefined;
+
+      if (cached) {
+        ({ totalItems, totalSize } = cached);
+      } else if (stats.isDirectory()) {
         try {
-          const items = await readdir(normalizedPath);
+          const items = await readdir(normalizedPath, { withFileTypes: true });
           totalItems = items.length;
           
-          // Calculate total size (optional, can be expensive for large directories)
-          const itemPromises = items.map(async (item) => {
+          // Calculate total size (optional, can be expensive for large directories);
+          // directories are known from their dirent and need no stat
+          const sizes = await mapWithConcurrency(items, SCAN_CONCURRENCY, async (item) => {
+            if (item.isDirectory()) {
+              return 0;
+            }
+
             try {
-              const itemPath = path.join(normalizedPath, item);
-              const itemStats = await stat(itemPath);
+              const itemStats = await stat(path.join(normalizedPath, item.name));
               return itemStats.isFile() ? itemStats.size : 0;
             } catch {
               return 0;
             }
           });
-          
-          const sizes = await Promise.all(itemPromises);
           totalSize = sizes.reduce((sum, size) => sum + size, 0);
+          ListingCacheService.set(cacheKey, normalizedPath, stats.mtimeMs, { totalItems, totalSize });
         } catch {
           // If we can't read the directory, leave counts at 0
         }
@@ -300,4 +765,142 @@ export class DirectoryService {
       throw error;
     }
   }
+
+  /**
+   * Builds a nested tree of a directory, breadth-first, up to maxDepth levels
+   * and maxNodes nodes. Directories that were not fully expanded are marked as
+   * truncated so clients can fetch them lazily. Aggregates cover the scanned
+   * portion of each subtree only.
+   */
+  public static async getDirectoryTree(
+    dirPath: string,
+    maxDepth: number = 3,
+    maxNodes: number = 1000,
+    includeHidden: boolean = false
+  ): Promise<DirectoryTreeResponse> {
+    const normalizedPath = await this.validatePath(dirPath);
+    logger.info(`Building directory tree: ${normalizedPath}`, { maxDepth, maxNodes, includeHidden });
+
+    const rootInfo = await this.createFileInfo(normalizedPath, path.basename(normalizedPath) || normalizedPath);
+    if (rootInfo.type !== 'directory') {
+      throw createError('Path is not a directory', 400);
+    }
+
+    const startedAt = Date.now();
+    const root = this.createTreeNode(rootInfo);
+    const queue: Array<{ node: DirectoryTreeNode; depth: number }> = [{ node: root, depth: 0 }];
+    const visited = new Set<string>();
+    let totalNodes = 1;
+    let truncated = false;
+
+    for (let entry = queue.shift(); entry; entry = queue.shift()) {
+      const { node, depth } = entry;
+
+      // Symlinked directories must stay inside the allowed roots, and are
+      // skipped if already expanded through another path
+      let realDirPath: string;
+      try {
+        realDirPath = await PathGuard.resolve(node.path);
+      } catch (error) {
+        logger.warn(`Skipping directory in tree: ${node.path}`, { error: (error as Error).message });
+        continue;
+      }
+      if (visited.has(realDirPath)) {
+        continue;
+      }
+      visited.add(realDirPath);
+
+      let fileNames: string[];
+      try {
+        fileNames = await readdir(realDirPath);
+      } catch (error) {
+        logger.warn(`Failed to read directory: ${node.path}`, { error: (error as Error).message });
+        continue;
+      }
+
+      fileNames = fileNames
+        .filter(fileName => includeHidden || !this.isHiddenName(fileName))
+        .sort((a, b) => a.localeCompare(b));
+      node.childCount = fileNames.length;
+
+      if (fileNames.length === 0) {
+        continue;
+      }
+
+      if (depth >= maxDepth) {
+        node.truncated = true;
+        truncated = true;
+        continue;
+      }
+
+      node.children = [];
+      for (const fileName of fileNames) {
+        if (totalNodes >= maxNodes) {
+          node.truncated = true;
+          truncated = true;
+          break;
+        }
+
+        try {
+          const fileInfo = await this.createFileInfo(path.join(node.path, fileName), fileName, true);
+          const child = this.createTreeNode(fileInfo);
+          node.children.push(child);
+          totalNodes++;
+
+          if (child.type === 'directory') {
+            queue.push({ node: child, depth: depth + 1 });
+          }
+        } catch (error) {
+          logger.warn(`Failed to get info for file: ${fileName}`, { error: (error as Error).message });
+        }
+      }
+    }
+
+    this.aggregateTreeNode(root);
+    observeScan('tree', startedAt, totalNodes);
+
+    return {
+      path: normalizedPath,
+      root,
+      limits: {
+        maxDepth,
+        maxNodes,
+      },
+      metadata: {
+        totalNodes,
+        truncated,
+        scannedAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Wraps a FileInfo object into an unexpanded tree node
+   */
+  private static createTreeNode(fileInfo: FileInfo): DirectoryTreeNode {
+    return {
+      ...fileInfo,
+      childCount: 0,
+      aggregateSize: fileInfo.size,
+      aggregateFiles: 0,
+      aggregateDirectories: 0,
+      truncated: false,
+    };
+  }
+
+  /**
+   * Computes aggregated sizes and descendant counts bottom-up
+   */
+  private static aggregateTreeNode(node: DirectoryTreeNode): void {
+    if (!node.children) {
+      return;
+    }
+
+    for (const child of node.children) {
+      this.aggregateTreeNode(child);
+      node.aggregateSize += child.aggregateSize;
+      node.aggregateFiles += child.aggregateFiles + (child.type === 'file' ? 1 : 0);
+      node.aggregateDirectories += child.aggregateDirectories + (child.type === 'directory' ? 1 : 0);
+    }
+  }
 }
\ No newline at end of file
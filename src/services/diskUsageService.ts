@@ -0,0 +1,314 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import moment from 'moment';
+import {
+  DiskUsageDirectory,
+  DiskUsageFile,
+  DiskUsageOptions,
+  DiskUsageProgress,
+  DiskUsageResponse,
+  DiskUsageTotals,
+} from '../types/directory';
+import { DirectoryService } from './directoryService';
+import { createError } from '../middleware/errorHandler';
+import { SCAN_CONCURRENCY, mapWithConcurrency } from '../utils/concurrency';
+import { logger } from '../utils/logger';
+
+const stat = promisify(fs.stat);
+const lstat = promisify(fs.lstat);
+const readdir = promisify(fs.readdir);
+
+interface ScanState {
+  options: DiskUsageOptions;
+  startedAt: number;
+  deadline: number;
+  signal: AbortSignal | undefined;
+  // dev:ino of files with several hard links that were already counted
+  seenInodes: Set<string>;
+  largestFiles: DiskUsageFile[];
+  scanned: DiskUsageTotals;
+  currentPath: string;
+  topLevelDirectories: number;
+  topLevelDone: number;
+  timedOut: boolean;
+  depthLimited: boolean;
+  inaccessible: number;
+  lastProgressAt: number;
+  onProgress: ((progress: DiskUsageProgress) => void) | undefined;
+}
+
+const emptyTotals = (): DiskUsageTotals => ({
+  apparentSize: 0,
+  allocatedSize: 0,
+  blocks: 0,
+  files: 0,
+  directories: 0,
+  symlinks: 0,
+});
+
+const addTotals = (target: DiskUsageTotals, source: DiskUsageTotals): void => {
+  target.apparentSize += source.apparentSize;
+  target.allocatedSize += source.allocatedSize;
+  target.blocks += source.blocks;
+  target.files += source.files;
+  target.directories += source.directories;
+  target.symlinks += source.symlinks;
+};
+
+/**
+ * Computes recursive disk usage like `du`: apparent and allocated size, entry
+ * counts, and the largest subdirectories and files of a directory.
+ *
+ * Symbolic links are counted but never followed, so the scan cannot leave
+ * the requested directory; files with several hard links are counted once.
+ * Scans stop at `maxDepth` and after `timeoutMs`, returning what was counted
+ * so far with the matching flag set in the metadata.
+ */
+export class DiskUsageService {
+  private static readonly PROGRESS_INTERVAL_MS = 250;
+
+  /**
+   * Scans a directory tree. `onProgress` is called at most every 250 ms while
+   * the scan runs; aborting `signal` stops the scan early.
+   */
+  public static async getUsage(
+    dirPath: string,
+    options: DiskUsageOptions,
+    onProgress?: (progress: DiskUsageProgress) => void,
+    signal?: AbortSignal
+  ): Promise<DiskUsageResponse> {
+    const normalizedPath = await DirectoryService.validatePath(dirPath);
+
+    const rootStats = await stat(normalizedPath);
+    if (!rootStats.isDirectory()) {
+      throw createError('Path is not a directory', 400);
+    }
+
+    logger.info(`Computing disk usage: ${normalizedPath}`, options);
+
+    const startedAt = Date.now();
+    const state: ScanState = {
+      options,
+      startedAt,
+      deadline: startedAt + options.timeoutMs,
+      signal,
+      seenInodes: new Set(),
+      largestFiles: [],
+      scanned: emptyTotals(),
+      currentPath: normalizedPath,
+      topLevelDirectories: 0,
+      topLevelDone: 0,
+      timedOut: false,
+      depthLimited: false,
+      inaccessible: 0,
+      lastProgressAt: startedAt,
+      onProgress,
+    };
+
+    const largestDirectories: DiskUsageDirectory[] = [];
+    const totals = await this.scanDirectory(normalizedPath, 0, state, largestDirectories);
+
+    // Like du, the total includes the directory itself
+    totals.apparentSize += rootStats.size;
+    totals.allocatedSize += rootStats.blocks * 512;
+    totals.blocks += rootStats.blocks;
+
+    largestDirectories.sort((a, b) => b.apparentSize - a.apparentSize);
+
+    const durationMs = Date.now() - startedAt;
+    logger.info(`Disk usage computed: ${normalizedPath}`, {
+      apparentSize: totals.apparentSize,
+      files: totals.files,
+      directories: totals.directories,
+      durationMs,
+      timedOut: state.timedOut,
+    });
+
+    return {
+      path: normalizedPath,
+      totals,
+      largestDirectories: largestDirectories.slice(0, options.top),
+      largestFiles: state.largestFiles,
+      limits: {
+        maxDepth: Number.isFinite(options.maxDepth) ? options.maxDepth : null,
+        timeoutMs: options.timeoutMs,
+        top: options.top,
+      },
+      metadata: {
+        timedOut: state.timedOut,
+        depthLimited: state.depthLimited,
+        inaccessible: state.inaccessible,
+        durationMs,
+        scannedAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Sums the entries below a directory, descending depth-first. Entries of
+   * one directory are lstat'ed with bounded concurrency; subdirectories are
+   * scanned one after another. At depth 0 the totals of every subdirectory are
+   * collected into `topLevel`.
+   */
+  private static async scanDirectory(
+    dirPath: string,
+    depth: number,
+    state: ScanState,
+    topLevel: DiskUsageDirectory[] | null
+  ): Promise<DiskUsageTotals> {
+    const totals = emptyTotals();
+    if (this.shouldStop(state)) {
+      return totals;
+    }
+
+    let dirents: fs.Dirent[];
+    try {
+      dirents = await readdir(dirPath, { withFileTypes: true });
+    } catch (error) {
+      logger.debug(`Failed to read directory: ${dirPath}`, { error: (error as Error).message });
+      state.inaccessible++;
+      return totals;
+    }
+
+    state.currentPath = dirPath;
+    if (!state.options.includeHidden) {
+      dirents = dirents.filter((dirent) => !DirectoryService.isHiddenName(dirent.name));
+    }
+
+    const entries = await mapWithConcurrency(dirents, SCAN_CONCURRENCY, async (dirent) => {
+      const entryPath = path.join(dirPath, dirent.name);
+      try {
+        return { name: dirent.name, path: entryPath, stats: await lstat(entryPath) };
+      } catch {
+        state.inaccessible++;
+        return null;
+      }
+    });
+
+    if (topLevel) {
+      state.topLevelDirectories = entries.filter((entry) => entry?.stats.isDirectory()).length;
+    }
+
+    for (const entry of entries) {
+      if (!entry) {
+        continue;
+      }
+
+      const { stats } = entry;
+      const own: DiskUsageTotals = {
+        ...emptyTotals(),
+        apparentSize: stats.size,
+        allocatedSize: stats.blocks * 512,
+        blocks: stats.blocks,
+      };
+
+      if (stats.isDirectory()) {
+        own.directories = 1;
+        if (depth < state.options.maxDepth) {
+          addTotals(own, await this.scanDirectory(entry.path, depth + 1, state, null));
+        } else {
+          state.depthLimited = true;
+        }
+
+        if (topLevel) {
+          // Like the overall totals, a directory's counts exclude the directory itself
+          topLevel.push({ name: entry.name, path: entry.path, ...own, directories: own.directories - 1 });
+          state.topLevelDone++;
+        }
+        addTotals(totals, own);
+        this.reportProgress(state);
+        continue;
+      }
+
+      if (stats.isSymbolicLink()) {
+        own.symlinks = 1;
+      } else {
+        own.files = 1;
+        if (stats.nlink > 1) {
+          const inode = `${stats.dev}:${stats.ino}`;
+          if (state.seenInodes.has(inode)) {
+            // Another hard link to a file that was already counted
+            continue;
+          }
+          state.seenInodes.add(inode);
+        }
+        this.trackLargestFile(state, entry.name, entry.path, stats);
+      }
+
+      addTotals(totals, own);
+      addTotals(state.scanned, own);
+      this.reportProgress(state);
+    }
+
+    // Directories are added to the running counters once they are done
+    if (depth > 0) {
+      state.scanned.directories++;
+    }
+
+    return totals;
+  }
+
+  /**
+   * Checks the timeout and whether the caller has gone away
+   */
+  private static shouldStop(state: ScanState): boolean {
+    if (state.signal?.aborted) {
+      return true;
+    }
+
+    if (Date.now() >= state.deadline) {
+      state.timedOut = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Keeps the `top` largest files in descending order of apparent size
+   */
+  private static trackLargestFile(state: ScanState, name: string, filePath: string, stats: fs.Stats): void {
+    const { largestFiles, options } = state;
+    const smallest = largestFiles[largestFiles.length - 1];
+    if (largestFiles.length >= options.top && smallest && smallest.apparentSize >= stats.size) {
+      return;
+    }
+
+    const file: DiskUsageFile = {
+      name,
+      path: filePath,
+      apparentSize: stats.size,
+      allocatedSize: stats.blocks * 512,
+      modifiedDate: moment(stats.mtime).toISOString(),
+    };
+
+    const index = largestFiles.findIndex((existing) => existing.apparentSize < file.apparentSize);
+    largestFiles.splice(index === -1 ? largestFiles.length : index, 0, file);
+    if (largestFiles.length > options.top) {
+      largestFiles.pop();
+    }
+  }
+
+  /**
+   * Calls the progress callback, at most once per interval
+   */
+  private static reportProgress(state: ScanState): void {
+    const now = Date.now();
+    if (!state.onProgress || now - state.lastProgressAt < this.PROGRESS_INTERVAL_MS) {
+      return;
+    }
+    state.lastProgressAt = now;
+
+    state.onProgress({
+      percent: state.topLevelDirectories > 0
+        ? Math.floor((state.topLevelDone / state.topLevelDirectories) * 100)
+        : 0,
+      files: state.scanned.files,
+      directories: state.scanned.directories,
+      apparentSize: state.scanned.apparentSize,
+      currentPath: state.currentPath,
+      elapsedMs: now - state.startedAt,
+    });
+  }
+}
@@ -0,0 +1,341 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import {
+  DuplicateGroup,
+  DuplicateSearchOptions,
+  DuplicateSearchProgress,
+  DuplicateSearchResponse,
+  WalkEntry,
+} from '../types/directory';
+import { DirectoryService } from './directoryService';
+import { createError } from '../middleware/errorHandler';
+import { SCAN_CONCURRENCY, mapWithConcurrency } from '../utils/concurrency';
+import { logger } from '../utils/logger';
+import { PathGuard } from '../utils/pathGuard';
+
+const stat = promisify(fs.stat);
+const lstat = promisify(fs.lstat);
+
+interface Candidate {
+  path: string;
+  size: number;
+}
+
+interface SearchState {
+  startedAt: number;
+  deadline: number;
+  signal: AbortSignal | undefined;
+  progress: DuplicateSearchProgress;
+  filesSkipped: number;
+  timedOut: boolean;
+  lastProgressAt: number;
+  onProgress: ((progress: DuplicateSearchProgress) => void) | undefined;
+}
+
+/**
+ * Finds files with identical content below a directory.
+ *
+ * Files are grouped by size first, then by a hash of their first
+ * PARTIAL_HASH_BYTES, and only files that still collide are hashed in full,
+ * so most files are never read. Largest sizes are hashed first, so a search
+ * that hits its timeout has already found the duplicates that waste the most
+ * space. Symbolic links are not followed and hard links to the same file are
+ * not reported as duplicates.
+ */
+export class DuplicateService {
+  private static readonly PARTIAL_HASH_BYTES = 64 * 1024;
+  private static readonly HASH_CONCURRENCY = 4;
+  private static readonly SCAN_BATCH_SIZE = 1000;
+  private static readonly PROGRESS_INTERVAL_MS = 250;
+
+  /**
+   * Searches a directory tree for duplicate files. `onProgress` is called at
+   * most every 250 ms; aborting `signal` cancels the search.
+   */
+  public static async findDuplicates(
+    basePath: string,
+    options: DuplicateSearchOptions,
+    onProgress?: (progress: DuplicateSearchProgress) => void,
+    signal?: AbortSignal
+  ): Promise<DuplicateSearchResponse> {
+    const normalizedPath = await DirectoryService.validatePath(basePath);
+
+    const pathStats = await stat(normalizedPath);
+    if (!pathStats.isDirectory()) {
+      throw createError('Path is not a directory', 400);
+    }
+
+    logger.info(`Searching for duplicate files under: ${normalizedPath}`, options);
+
+    const startedAt = Date.now();
+    const state: SearchState = {
+      startedAt,
+      deadline: startedAt + options.timeoutMs,
+      signal,
+      progress: {
+        phase: 'scanning',
+        filesScanned: 0,
+        candidateFiles: 0,
+        hashedFiles: 0,
+        hashedBytes: 0,
+        elapsedMs: 0,
+      },
+      filesSkipped: 0,
+      timedOut: false,
+      lastProgressAt: startedAt,
+      onProgress,
+    };
+
+    const bySize = await this.groupBySize(normalizedPath, options, state);
+
+    // Only sizes shared by several files can hold duplicates; biggest first
+    const sizeGroups = Array.from(bySize.entries())
+      .filter(([, files]) => files.length > 1)
+      .sort(([a], [b]) => b - a)
+      .map(([, files]) => files);
+    state.progress.candidateFiles = sizeGroups.reduce((sum, files) => sum + files.length, 0);
+
+    const groups: DuplicateGroup[] = [];
+    for (const sizeGroup of sizeGroups) {
+      if (this.shouldStop(state)) {
+        break;
+      }
+
+      const size = (sizeGroup[0] as Candidate).size;
+      state.progress.phase = 'partial-hash';
+      const partialGroups = await this.groupByHash(sizeGroup, state, this.PARTIAL_HASH_BYTES);
+
+      for (const partialGroup of partialGroups) {
+        // The partial hash already covered files that fit in it
+        let fullGroups = [partialGroup];
+        if (size > this.PARTIAL_HASH_BYTES) {
+          state.progress.phase = 'full-hash';
+          fullGroups = await this.groupByHash(partialGroup.files, state);
+        }
+
+        for (const { hash, files } of fullGroups) {
+          groups.push({
+            hash,
+            size,
+            count: files.length,
+            reclaimableBytes: size * (files.length - 1),
+            paths: files.map((file) => file.path).sort(),
+          });
+        }
+      }
+    }
+
+    groups.sort((a, b) => b.reclaimableBytes - a.reclaimableBytes || a.hash.localeCompare(b.hash));
+
+    const durationMs = Date.now() - startedAt;
+    const reclaimableBytes = groups.reduce((sum, group) => sum + group.reclaimableBytes, 0);
+    logger.info(`Duplicate search finished: ${normalizedPath}`, {
+      groups: groups.length,
+      reclaimableBytes,
+      durationMs,
+      timedOut: state.timedOut,
+    });
+
+    return {
+      path: normalizedPath,
+      groups: groups.slice(0, options.maxGroups),
+      metadata: {
+        filesScanned: state.progress.filesScanned,
+        candidateFiles: state.progress.candidateFiles,
+        hashedFiles: state.progress.hashedFiles,
+        hashedBytes: state.progress.hashedBytes,
+        duplicateGroups: groups.length,
+        duplicateFiles: groups.reduce((sum, group) => sum + group.count, 0),
+        reclaimableBytes,
+        filesSkipped: state.filesSkipped,
+        truncated: groups.length > options.maxGroups,
+        timedOut: state.timedOut,
+        durationMs,
+        searchedAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Walks the tree and buckets every matching regular file by size. Files
+   * reached through several hard links are kept once.
+   */
+  private static async groupBySize(
+    normalizedPath: string,
+    options: DuplicateSearchOptions,
+    state: SearchState
+  ): Promise<Map<number, Candidate[]>> {
+    const bySize = new Map<number, Candidate[]>();
+    const seenInodes = new Set<string>();
+    let batch: WalkEntry[] = [];
+
+    const flush = async (): Promise<void> => {
+      const entries = batch;
+      batch = [];
+
+      const stats = await mapWithConcurrency(entries, SCAN_CONCURRENCY, async (entry) => {
+        try {
+          return await lstat(entry.path);
+        } catch {
+          state.filesSkipped++;
+          return null;
+        }
+      });
+
+      entries.forEach((entry, index) => {
+        const fileStats = stats[index];
+        if (!fileStats || !fileStats.isFile() || fileStats.size < options.minSize) {
+          return;
+        }
+
+        if (fileStats.nlink > 1) {
+          const inode = `${fileStats.dev}:${fileStats.ino}`;
+          if (seenInodes.has(inode)) {
+            return;
+          }
+          seenInodes.add(inode);
+        }
+
+        const sameSize = bySize.get(fileStats.size);
+        if (sameSize) {
+          sameSize.push({ path: entry.path, size: fileStats.size });
+        } else {
+          bySize.set(fileStats.size, [{ path: entry.path, size: fileStats.size }]);
+        }
+      });
+
+      state.progress.filesScanned += entries.length;
+      this.reportProgress(state);
+    };
+
+    for await (const entry of DirectoryService.walk(normalizedPath, options.maxDepth, options.includeHidden)) {
+      if (this.shouldStop(state)) {
+        break;
+      }
+
+      if (!entry.dirent.isFile()) {
+        continue;
+      }
+
+      if (options.extensions.length > 0 && !options.extensions.includes(path.extname(entry.name).toLowerCase())) {
+        continue;
+      }
+
+      if (PathGuard.isDenied(entry.path)) {
+        state.filesSkipped++;
+        continue;
+      }
+
+      batch.push(entry);
+      if (batch.length >= this.SCAN_BATCH_SIZE) {
+        await flush();
+      }
+    }
+
+    await flush();
+    return bySize;
+  }
+
+  /**
+   * Splits files of equal size into groups with equal hashes, either of the
+   * first `maxBytes` or of the whole content. Groups with a single file are
+   * dropped; unreadable files are skipped.
+   */
+  private static async groupByHash(
+    files: Candidate[],
+    state: SearchState,
+    maxBytes?: number
+  ): Promise<Array<{ hash: string; files: Candidate[] }>> {
+    const hashes = await mapWithConcurrency(files, this.HASH_CONCURRENCY, async (file) => {
+      if (this.shouldStop(state)) {
+        return null;
+      }
+
+      try {
+        const hash = await this.hashFile(file.path, state, maxBytes);
+        if (hash) {
+          state.progress.hashedFiles++;
+          state.progress.hashedBytes += maxBytes === undefined ? file.size : Math.min(file.size, maxBytes);
+          this.reportProgress(state);
+        }
+        return hash;
+      } catch (error) {
+        logger.debug(`Failed to hash file: ${file.path}`, { error: (error as Error).message });
+        state.filesSkipped++;
+        return null;
+      }
+    });
+
+    const byHash = new Map<string, Candidate[]>();
+    files.forEach((file, index) => {
+      const hash = hashes[index];
+      if (!hash) {
+        return;
+      }
+
+      const group = byHash.get(hash);
+      if (group) {
+        group.push(file);
+      } else {
+        byHash.set(hash, [file]);
+      }
+    });
+
+    return Array.from(byHash.entries())
+      .filter(([, group]) => group.length > 1)
+      .map(([hash, group]) => ({ hash, files: group }));
+  }
+
+  /**
+   * Streams a file (or its first `maxBytes`) through SHA-256. Resolves with
+   * null if the search is stopped while the file is being read.
+   */
+  private static hashFile(filePath: string, state: SearchState, maxBytes?: number): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+      const stream = fs.createReadStream(filePath, maxBytes === undefined ? {} : { end: maxBytes - 1 });
+
+      stream.on('data', (chunk) => {
+        if (this.shouldStop(state)) {
+          stream.destroy();
+          resolve(null);
+          return;
+        }
+        hash.update(chunk);
+      });
+      stream.on('error', reject);
+      stream.on('end', () => resolve(hash.digest('hex')));
+    });
+  }
+
+  /**
+   * Checks the timeout and whether the caller has cancelled the search
+   */
+  private static shouldStop(state: SearchState): boolean {
+    if (state.signal?.aborted) {
+      return true;
+    }
+
+    if (Date.now() >= state.deadline) {
+      state.timedOut = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Calls the progress callback, at most once per interval
+   */
+  private static reportProgress(state: SearchState): void {
+    const now = Date.now();
+    if (!state.onProgress || now - state.lastProgressAt < this.PROGRESS_INTERVAL_MS) {
+      return;
+    }
+    state.lastProgressAt = now;
+
+    state.onProgress({ ...state.progress, elapsedMs: now - state.startedAt });
+  }
+}
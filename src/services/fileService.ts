@@ -0,0 +1,358 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import {
+  DownloadableFile,
+  FilePreviewOptions,
+  FilePreviewResponse,
+  TextEncoding,
+} from '../types/directory';
+import { DirectoryService } from './directoryService';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const stat = promisify(fs.stat);
+const open = promisify(fs.open);
+const read = promisify(fs.read);
+const close = promisify(fs.close);
+
+interface LineWindow {
+  lines: string[];
+  startLine: number | null;
+  endLine: number | null;
+  hasMore: boolean;
+  truncated: boolean;
+}
+
+export class FileService {
+  public static readonly MAX_PREVIEW_BYTES = parseInt(process.env.PREVIEW_MAX_BYTES || '262144'); // 256KB
+  public static readonly MAX_PREVIEW_LINES = 5000;
+  private static readonly SNIFF_BYTES = 8000;
+  private static readonly TAIL_CHUNK_SIZE = 65536;
+
+  /**
+   * Builds a strong ETag from the file's inode, size and modification time
+   * (to the microsecond), so clients can resume downloads with If-Range
+   */
+  private static createETag(stats: fs.Stats): string {
+    const mtime = Math.floor(stats.mtimeMs * 1000);
+    return `"${stats.ino.toString(16)}-${stats.size.toString(16)}-${mtime.toString(16)}"`;
+  }
+
+  /**
+   * Validates a file path and resolves the information needed to serve it
+   */
+  public static async getDownloadableFile(filePath: string): Promise<DownloadableFile> {
+    const normalizedPath = await DirectoryService.validatePath(filePath);
+    const stats = await stat(normalizedPath);
+
+    if (stats.isDirectory()) {
+      throw createError('Path is a directory, use /list to browse it', 400);
+    }
+
+    if (!stats.isFile()) {
+      throw createError('Path is not a regular file', 400);
+    }
+
+    return {
+      path: normalizedPath,
+      name: path.basename(normalizedPath),
+      size: stats.size,
+      modified: stats.mtime,
+      etag: this.createETag(stats),
+    };
+  }
+
+  /**
+   * Opens a read stream over the whole file or an inclusive byte range
+   */
+  public static createReadStream(file: DownloadableFile, range?: { start: number; end: number }): fs.ReadStream {
+    logger.info(`Streaming file: ${file.path}`, { size: file.size, range });
+    return fs.createReadStream(file.path, range ? { start: range.start, end: range.end } : {});
+  }
+
+  /**
+   * Reads up to `length` bytes from the given position of a file
+   */
+  private static async readBytes(filePath: string, position: number, length: number): Promise<Buffer> {
+    const fd = await open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await read(fd, buffer, 0, length, position);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await close(fd);
+    }
+  }
+
+  /**
+   * Detects the text encoding of a file from its first bytes. BOMs win; without
+   * one, UTF-16 is recognised by its pattern of NUL bytes, other NUL bytes or a
+   * high share of control characters mark the file as binary, and anything that
+   * is not valid UTF-8 is treated as Latin-1.
+   */
+  public static detectEncoding(sample: Buffer): { encoding: TextEncoding | null; bomLength: number; binary: boolean } {
+    if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+      return { encoding: 'utf-8', bomLength: 3, binary: false };
+    }
+    if (sample[0] === 0xff && sample[1] === 0xfe) {
+      return { encoding: 'utf-16le', bomLength: 2, binary: false };
+    }
+    if (sample[0] === 0xfe && sample[1] === 0xff) {
+      return { encoding: 'utf-16be', bomLength: 2, binary: false };
+    }
+
+    let evenNulls = 0;
+    let oddNulls = 0;
+    let controlChars = 0;
+    for (let i = 0; i < sample.length; i++) {
+      const byte = sample[i] as number;
+      if (byte === 0) {
+        if (i % 2 === 0) {
+          evenNulls++;
+        } else {
+          oddNulls++;
+        }
+      } else if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c && byte !== 0x1b) {
+        controlChars++;
+      }
+    }
+
+    const pairs = Math.floor(sample.length / 2);
+    if (pairs > 0 && oddNulls > pairs * 0.4 && evenNulls < pairs * 0.05) {
+      return { encoding: 'utf-16le', bomLength: 0, binary: false };
+    }
+    if (pairs > 0 && evenNulls > pairs * 0.4 && oddNulls < pairs * 0.05) {
+      return { encoding: 'utf-16be', bomLength: 0, binary: false };
+    }
+    if (evenNulls + oddNulls > 0 || controlChars > sample.length * 0.1) {
+      return { encoding: null, bomLength: 0, binary: true };
+    }
+
+    try {
+      // Streaming mode tolerates a multi-byte sequence cut off at the end of the sample
+      new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+      return { encoding: 'utf-8', bomLength: 0, binary: false };
+    } catch {
+      return { encoding: 'latin1', bomLength: 0, binary: false };
+    }
+  }
+
+  /**
+   * Creates an incremental decoder for the given encoding
+   */
+  private static createDecoder(encoding: TextEncoding): (chunk?: Buffer) => string {
+    if (encoding === 'latin1') {
+      return (chunk) => (chunk ? chunk.toString('latin1') : '');
+    }
+
+    const decoder = new TextDecoder(encoding);
+    return (chunk) => (chunk ? decoder.decode(chunk, { stream: true }) : decoder.decode());
+  }
+
+  /**
+   * Reads lines startLine..endLine (1-based, inclusive) by streaming from the
+   * start of the file, stopping once the window or the byte cap is reached
+   */
+  private static async readLines(
+    filePath: string,
+    encoding: TextEncoding,
+    bomLength: number,
+    startLine: number,
+    endLine: number,
+    maxBytes: number
+  ): Promise<LineWindow> {
+    const stream = fs.createReadStream(filePath, { start: bomLength });
+    const decode = this.createDecoder(encoding);
+    const lines: string[] = [];
+    let buffered = '';
+    let lineNumber = 0;
+    let bytes = 0;
+    let hasMore = false;
+    let truncated = false;
+
+    // Returns false once the window is complete or the byte cap is hit
+    const takeLine = (rawLine: string): boolean => {
+      lineNumber++;
+      if (lineNumber < startLine) {
+        return true;
+      }
+      if (lineNumber > endLine) {
+        hasMore = true;
+        return false;
+      }
+
+      const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+      bytes += Buffer.byteLength(line) + 1;
+      if (bytes > maxBytes) {
+        truncated = true;
+        hasMore = true;
+        return false;
+      }
+
+      lines.push(line);
+      return true;
+    };
+
+    try {
+      reading: for await (const chunk of stream) {
+        buffered += decode(chunk as Buffer);
+        const parts = buffered.split('\n');
+        buffered = parts.pop() ?? '';
+
+        for (const part of parts) {
+          if (!takeLine(part)) {
+            break reading;
+          }
+        }
+
+        // Guard against a single huge line without line breaks
+        if (buffered.length > maxBytes) {
+          if (lineNumber + 1 >= startLine) {
+            lines.push(buffered.slice(0, Math.max(0, maxBytes - bytes)));
+            lineNumber++;
+            truncated = true;
+            hasMore = true;
+            break;
+          }
+          // Still before the window, the rest of this line only needs counting
+          buffered = '';
+        }
+      }
+
+      if (!hasMore) {
+        buffered += decode();
+        if (buffered.length > 0) {
+          takeLine(buffered);
+        }
+      }
+    } finally {
+      stream.destroy();
+    }
+
+    return {
+      lines,
+      startLine: lines.length > 0 ? startLine : null,
+      endLine: lines.length > 0 ? startLine + lines.length - 1 : null,
+      hasMore,
+      truncated,
+    };
+  }
+
+  /**
+   * Reads the last `count` lines by reading backwards from the end of the file
+   * in chunks, never reading more than maxBytes
+   */
+  private static async readTail(
+    filePath: string,
+    encoding: TextEncoding,
+    bomLength: number,
+    size: number,
+    count: number,
+    maxBytes: number
+  ): Promise<LineWindow> {
+    const unit = encoding.startsWith('utf-16') ? 2 : 1;
+    let position = size;
+    let buffer = Buffer.alloc(0);
+    let parts: string[] = [''];
+
+    while (position > bomLength && buffer.length < maxBytes) {
+      let start = Math.max(bomLength, position - Math.min(this.TAIL_CHUNK_SIZE, maxBytes - buffer.length));
+      // Keep UTF-16 reads aligned to code units
+      start -= (start - bomLength) % unit;
+
+      const chunk = await this.readBytes(filePath, start, position - start);
+      buffer = Buffer.concat([chunk, buffer]);
+      position = start;
+
+      const decode = this.createDecoder(encoding);
+      parts = (decode(buffer) + decode()).split('\n');
+      if (parts[parts.length - 1] === '') {
+        parts.pop();
+      }
+      // One extra line is needed because the first one is usually partial
+      if (parts.length > count) {
+        break;
+      }
+    }
+
+    const reachedStart = position <= bomLength;
+    let truncated = false;
+    if (!reachedStart) {
+      const partial = parts.shift() ?? '';
+      if (parts.length === 0) {
+        // A single line longer than the byte cap, return its end
+        parts = [partial];
+        truncated = true;
+      } else if (parts.length < count) {
+        truncated = true;
+      }
+    }
+
+    const totalLines = parts.length;
+    const lines = parts.slice(-count).map(line => (line.endsWith('\r') ? line.slice(0, -1) : line));
+    const hasMore = !reachedStart || totalLines > lines.length;
+
+    return {
+      lines,
+      startLine: reachedStart && lines.length > 0 ? totalLines - lines.length + 1 : null,
+      endLine: reachedStart && lines.length > 0 ? totalLines : null,
+      hasMore,
+      truncated,
+    };
+  }
+
+  /**
+   * Returns a window of lines (or the last N lines) of a text file together
+   * with its FileInfo, detecting the encoding and flagging binary files
+   */
+  public static async getPreview(filePath: string, options: FilePreviewOptions): Promise<FilePreviewResponse> {
+    const normalizedPath = await DirectoryService.validatePath(filePath);
+    const file = await DirectoryService.createFileInfo(normalizedPath, path.basename(normalizedPath));
+    if (file.type === 'directory') {
+      throw createError('Path is a directory, use /list to browse it', 400);
+    }
+
+    const maxBytes = Math.min(options.maxBytes, this.MAX_PREVIEW_BYTES);
+    const mode = options.tail !== undefined ? 'tail' : 'lines';
+    logger.info(`Previewing file: ${normalizedPath}`, { ...options, maxBytes });
+
+    const sample = await this.readBytes(normalizedPath, 0, this.SNIFF_BYTES);
+    const { encoding, bomLength, binary } = this.detectEncoding(sample);
+
+    if (binary || encoding === null) {
+      return {
+        file,
+        encoding: null,
+        hasBom: false,
+        binary: true,
+        mode,
+        startLine: null,
+        endLine: null,
+        lines: [],
+        hasMore: file.size > 0,
+        truncated: false,
+      };
+    }
+
+    const window = options.tail !== undefined
+      ? await this.readTail(normalizedPath, encoding, bomLength, file.size, options.tail, maxBytes)
+      : await this.readLines(
+        normalizedPath,
+        encoding,
+        bomLength,
+        options.startLine,
+        Math.min(options.endLine ?? options.startLine + 99, options.startLine + this.MAX_PREVIEW_LINES - 1),
+        maxBytes
+      );
+
+    return {
+      file,
+      encoding,
+      hasBom: bomLength > 0,
+      binary: false,
+      mode,
+      ...window,
+    };
+  }
+}
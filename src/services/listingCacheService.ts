@@ -0,0 +1,147 @@
+import fs from 'fs';
+import { logger } from '../utils/logger';
+
+interface CacheEntry {
+  dirPath: string;
+  mtimeMs: number;
+  expiresAt: number;
+  value: unknown;
+}
+
+/**
+ * In-process LRU cache of directory scans.
+ *
+ * Entries are keyed by the caller (a directory plus the options that shaped
+ * the scan) and dropped when the directory's mtime changes, when an `fs.watch`
+ * on the directory reports any event, or after LISTING_CACHE_TTL_MS. The TTL
+ * also covers changes watching cannot see, such as platforms without
+ * `fs.watch` support or targets of followed symlinks. At most
+ * LISTING_CACHE_MAX_ENTRIES scans are kept; a TTL of 0 disables the cache.
+ */
+export class ListingCacheService {
+  private static readonly CACHE_TTL_MS = parseInt(process.env.LISTING_CACHE_TTL_MS || '30000'); // 30 seconds
+  private static readonly MAX_ENTRIES = parseInt(process.env.LISTING_CACHE_MAX_ENTRIES || '200');
+
+  private static readonly entries = new Map<string, CacheEntry>();
+  private static readonly watchers = new Map<string, { watcher: fs.FSWatcher; keys: Set<string> }>();
+  private static hits = 0;
+  private static misses = 0;
+
+  /**
+   * Returns the cached value for a key if the directory has not changed since
+   * it was stored
+   */
+  public static get<T>(key: string, dirPath: string, mtimeMs: number): T | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.mtimeMs !== mtimeMs || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.delete(key);
+      }
+      this.misses++;
+      logger.info(`Listing cache miss: ${dirPath}`, this.getStats());
+      return undefined;
+    }
+
+    // Refresh recency for LRU eviction
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    this.hits++;
+    logger.info(`Listing cache hit: ${dirPath}`, this.getStats());
+    return entry.value as T;
+  }
+
+  /**
+   * Stores a scan of a directory and starts watching the directory for changes
+   */
+  public static set(key: string, dirPath: string, mtimeMs: number, value: unknown): void {
+    if (this.CACHE_TTL_MS <= 0 || this.MAX_ENTRIES <= 0) {
+      return;
+    }
+
+    this.delete(key);
+    this.entries.set(key, { dirPath, mtimeMs, expiresAt: Date.now() + this.CACHE_TTL_MS, value });
+    this.watch(dirPath, key);
+
+    while (this.entries.size > this.MAX_ENTRIES) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) {
+        break;
+      }
+      this.delete(oldestKey);
+    }
+  }
+
+  /**
+   * Drops every cached scan of a directory
+   */
+  public static invalidate(dirPath: string): void {
+    const watched = this.watchers.get(dirPath);
+    if (!watched) {
+      return;
+    }
+
+    logger.debug(`Invalidating listing cache: ${dirPath}`, { entries: watched.keys.size });
+    for (const key of Array.from(watched.keys)) {
+      this.delete(key);
+    }
+  }
+
+  /**
+   * Returns the hit and miss counters together with the current size
+   */
+  public static getStats(): { hits: number; misses: number; entries: number; watchers: number } {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.entries.size,
+      watchers: this.watchers.size,
+    };
+  }
+
+  /**
+   * Removes a single entry, closing the directory watcher once no entry
+   * depends on it anymore
+   */
+  private static delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+
+    this.entries.delete(key);
+    const watched = this.watchers.get(entry.dirPath);
+    if (watched) {
+      watched.keys.delete(key);
+      if (watched.keys.size === 0) {
+        watched.watcher.close();
+        this.watchers.delete(entry.dirPath);
+      }
+    }
+  }
+
+  /**
+   * Registers a cache key with the watcher of its directory, creating the
+   * watcher if needed. Without a watcher the mtime check and TTL still apply.
+   */
+  private static watch(dirPath: string, key: string): void {
+    const existing = this.watchers.get(dirPath);
+    if (existing) {
+      existing.keys.add(key);
+      return;
+    }
+
+    try {
+      // Not persistent, so cached directories never keep the process alive
+      const watcher = fs.watch(dirPath, { persistent: false }, () => this.invalidate(dirPath));
+      watcher.on('error', (error) => {
+        logger.warn(`Directory watcher failed: ${dirPath}`, { error: error.message });
+        this.invalidate(dirPath);
+      });
+      this.watchers.set(dirPath, { watcher, keys: new Set([key]) });
+    } catch (error) {
+      logger.warn(`Cannot watch directory, relying on mtime checks: ${dirPath}`, { error: (error as Error).message });
+    }
+  }
+}
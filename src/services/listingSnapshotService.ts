@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { ListingEntry, DirectoryListingResponse, ListingSnapshot } from '../types/directory';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Keeps short-lived snapshots of sorted directory listings so that clients can
+ * page through them with opaque cursors. Every page of a snapshot sees the same
+ * entries in the same order, even while the directory changes on disk, and
+ * later pages are served without re-reading the directory.
+ */
+export class ListingSnapshotService {
+  private static readonly SNAPSHOT_TTL_MS = parseInt(process.env.LISTING_SNAPSHOT_TTL_MS || '120000'); // 2 minutes
+  private static readonly MAX_SNAPSHOTS = parseInt(process.env.LISTING_SNAPSHOT_MAX || '100');
+  private static readonly snapshots = new Map<string, ListingSnapshot>();
+
+  /**
+   * Drops snapshots whose TTL has expired
+   */
+  private static evictExpired(): void {
+    const now = Date.now();
+    for (const [id, snapshot] of this.snapshots) {
+      if (snapshot.expiresAt <= now) {
+        this.snapshots.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Stores a sorted listing, evicting the least recently used snapshot when
+   * the store is full
+   */
+  public static create(
+    snapshotPath: string,
+    entries: ListingEntry[],
+    metadata: DirectoryListingResponse['metadata']
+  ): ListingSnapshot {
+    this.evictExpired();
+
+    const snapshot: ListingSnapshot = {
+      id: crypto.randomUUID(),
+      path: snapshotPath,
+      entries,
+      metadata,
+      expiresAt: Date.now() + this.SNAPSHOT_TTL_MS,
+    };
+
+    this.store(snapshot);
+
+    logger.debug(`Created listing snapshot ${snapshot.id}`, { path: snapshotPath, entries: entries.length });
+    return snapshot;
+  }
+
+  /**
+   * Keeps a snapshot that is being served again (e.g. from the listing cache)
+   * alive, re-registering it if it had already been evicted
+   */
+  public static retain(snapshot: ListingSnapshot): void {
+    this.evictExpired();
+
+    snapshot.expiresAt = Date.now() + this.SNAPSHOT_TTL_MS;
+    this.store(snapshot);
+  }
+
+  /**
+   * Adds or moves a snapshot to the most recently used position, evicting the
+   * least recently used one when the store is full
+   */
+  private static store(snapshot: ListingSnapshot): void {
+    this.snapshots.delete(snapshot.id);
+    this.snapshots.set(snapshot.id, snapshot);
+
+    if (this.snapshots.size > this.MAX_SNAPSHOTS) {
+      const oldestKey = this.snapshots.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.snapshots.delete(oldestKey);
+      }
+    }
+  }
+
+  /**
+   * Looks up a live snapshot. Access extends its lifetime, so a client that
+   * keeps paging does not lose its snapshot halfway through.
+   */
+  public static get(id: string): ListingSnapshot {
+    this.evictExpired();
+
+    const snapshot = this.snapshots.get(id);
+    if (!snapshot) {
+      throw createError('Cursor has expired, restart the listing from the first page', 410, 'CURSOR_EXPIRED');
+    }
+
+    // Refresh recency for LRU eviction
+    this.snapshots.delete(id);
+    snapshot.expiresAt = Date.now() + this.SNAPSHOT_TTL_MS;
+    this.snapshots.set(id, snapshot);
+
+    return snapshot;
+  }
+
+  /**
+   * Encodes a position within a snapshot as an opaque cursor token
+   */
+  public static encodeCursor(snapshot: ListingSnapshot, offset: number): string {
+    return Buffer.from(`${snapshot.id}:${offset}`).toString('base64url');
+  }
+
+  /**
+   * Decodes a cursor token back into a snapshot id and offset
+   */
+  public static decodeCursor(cursor: string): { id: string; offset: number } {
+    const [id, offset] = Buffer.from(cursor, 'base64url').toString('utf8').split(':');
+    const numericOffset = Number(offset);
+    if (!id || !offset || !Number.isInteger(numericOffset) || numericOffset < 0) {
+      throw createError('Invalid cursor', 400, 'INVALID_CURSOR');
+    }
+
+    return { id, offset: numericOffset };
+  }
+}
@@ -0,0 +1,73 @@
+import { Counter, Gauge } from 'prom-client';
+import { ListingCacheService } from './listingCacheService';
+import { DirectoryWatchService } from './watchService';
+import { registry } from '../utils/metrics';
+
+// The listing cache and directory watch figures are read from their services
+// whenever Prometheus scrapes
+export const listingCacheLookups = new Counter({
+  name: 'listing_cache_lookups_total',
+  help: 'Listing cache lookups by result (hit or miss)',
+  labelNames: ['result'] as const,
+  registers: [registry],
+  collect(): void {
+    const { hits, misses } = ListingCacheService.getStats();
+    this.reset();
+    this.inc({ result: 'hit' }, hits);
+    this.inc({ result: 'miss' }, misses);
+  },
+});
+
+export const listingCacheEntries = new Gauge({
+  name: 'listing_cache_entries',
+  help: 'Directory listings held in the listing cache',
+  registers: [registry],
+  collect(): void {
+    this.set(ListingCacheService.getStats().entries);
+  },
+});
+
+export const listingCacheWatchers = new Gauge({
+  name: 'listing_cache_watchers',
+  help: 'Directories watched to invalidate the listing cache',
+  registers: [registry],
+  collect(): void {
+    this.set(ListingCacheService.getStats().watchers);
+  },
+});
+
+export const watchedDirectories = new Gauge({
+  name: 'directory_watch_directories',
+  help: 'Directories watched for Server-Sent Events clients',
+  registers: [registry],
+  collect(): void {
+    this.set(DirectoryWatchService.getStats().directories);
+  },
+});
+
+export const watchSubscribers = new Gauge({
+  name: 'directory_watch_subscribers',
+  help: 'Connected Server-Sent Events watch clients',
+  registers: [registry],
+  collect(): void {
+    this.set(DirectoryWatchService.getStats().subscribers);
+  },
+});
+
+/**
+ * Renders the metrics registry in the Prometheus text exposition format.
+ *
+ * Request, scan and rate-limit metrics are updated as things happen; the
+ * collectors above are registered when this module loads, which the /metrics
+ * route guarantees by importing it.
+ */
+export class MetricsService {
+  public static readonly CONTENT_TYPE = registry.contentType;
+
+  /**
+   * Returns every metric in the text exposition format
+   */
+  public static getMetrics(): Promise<string> {
+    return registry.metrics();
+  }
+}
@@ -0,0 +1,372 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { promisify } from 'util';
+import {
+  FileInfo,
+  NameSearchOptions,
+  NameSearchResponse,
+  ContentSearchOptions,
+  ContentSearchMatch,
+  ContentSearchResponse,
+  WalkEntry,
+} from '../types/directory';
+import { DirectoryService } from './directoryService';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { PathGuard } from '../utils/pathGuard';
+import { globToRegExp, escapeRegExp, findUnsafeRegExp } from '../utils/glob';
+
+const stat = promisify(fs.stat);
+const open = promisify(fs.open);
+const read = promisify(fs.read);
+const close = promisify(fs.close);
+
+export class SearchService {
+  private static readonly MAX_CONTENT_FILE_SIZE = parseInt(process.env.CONTENT_SEARCH_MAX_FILE_SIZE || '10485760'); // 10MB
+  private static readonly BINARY_SNIFF_BYTES = 8000;
+  private static readonly MAX_SNIPPET_LENGTH = 240;
+  private static readonly SNIPPET_CONTEXT = 60;
+
+  /**
+   * Rejects user-supplied regular expressions that could backtrack
+   * catastrophically, since matching runs on the event loop
+   */
+  private static assertSafeRegExp(source: string): void {
+    const reason = findUnsafeRegExp(source);
+    if (reason) {
+      throw createError(reason, 400, 'UNSAFE_REGEX');
+    }
+  }
+
+  /**
+   * Builds the name matcher for a search. Glob patterns containing a slash are
+   * matched against the path relative to the base, others against the name.
+   */
+  private static createNameMatcher(options: NameSearchOptions): (name: string, relativePath: string) => boolean {
+    if (options.regex) {
+      this.assertSafeRegExp(options.regex);
+
+      let regex: RegExp;
+      try {
+        regex = new RegExp(options.regex, options.caseSensitive ? '' : 'i');
+      } catch {
+        throw createError('Invalid regular expression', 400);
+      }
+      return (name) => regex.test(name);
+    }
+
+    if (options.pattern) {
+      const regex = globToRegExp(options.pattern, options.caseSensitive);
+      const matchPath = options.pattern.includes('/');
+      return (name, relativePath) => regex.test(matchPath ? relativePath : name);
+    }
+
+    return () => true;
+  }
+
+  /**
+   * Applies the type, extension, size and date filters to a matched entry
+   */
+  private static matchesFilters(fileInfo: FileInfo, options: NameSearchOptions): boolean {
+    if (options.type && fileInfo.type !== options.type) {
+      return false;
+    }
+
+    if (options.extensions.length > 0 && !options.extensions.includes(fileInfo.extension)) {
+      return false;
+    }
+
+    if (options.minSize !== undefined && fileInfo.size < options.minSize) {
+      return false;
+    }
+
+    if (options.maxSize !== undefined && fileInfo.size > options.maxSize) {
+      return false;
+    }
+
+    const modified = new Date(fileInfo.modifiedDate).getTime();
+    if (options.modifiedAfter && modified < new Date(options.modifiedAfter).getTime()) {
+      return false;
+    }
+
+    if (options.modifiedBefore && modified > new Date(options.modifiedBefore).getTime()) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Recursively searches for files and directories by name under a base path
+   */
+  public static async searchByName(
+    basePath: string,
+    options: NameSearchOptions,
+    page: number = 1,
+    limit: number = 100
+  ): Promise<NameSearchResponse> {
+    const normalizedPath = await DirectoryService.validatePath(basePath);
+    logger.info(`Searching by name under: ${normalizedPath}`, { ...options, page, limit });
+
+    const pathStats = await stat(normalizedPath);
+    if (!pathStats.isDirectory()) {
+      throw createError('Path is not a directory', 400);
+    }
+
+    const matchName = this.createNameMatcher(options);
+    const matches: FileInfo[] = [];
+    let scannedEntries = 0;
+    let truncated = false;
+
+    for await (const entry of DirectoryService.walk(normalizedPath, options.maxDepth, options.includeHidden)) {
+      scannedEntries++;
+
+      if (!matchName(entry.name, entry.relativePath)) {
+        continue;
+      }
+
+      try {
+        const fileInfo = await DirectoryService.createFileInfo(entry.path, entry.name);
+        if (this.matchesFilters(fileInfo, options)) {
+          matches.push(fileInfo);
+        }
+      } catch (error) {
+        logger.warn(`Failed to get info for file: ${entry.name}`, { error: (error as Error).message });
+      }
+
+      if (matches.length >= options.maxResults) {
+        truncated = true;
+        break;
+      }
+    }
+
+    matches.sort((a, b) => a.path.localeCompare(b.path));
+
+    // Calculate pagination
+    const total = matches.length;
+    const totalPages = Math.ceil(total / limit);
+    const startIndex = (page - 1) * limit;
+    const endIndex = startIndex + limit;
+
+    return {
+      path: normalizedPath,
+      items: matches.slice(startIndex, endIndex),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrevious: page > 1,
+      },
+      metadata: {
+        totalMatches: total,
+        scannedEntries,
+        truncated,
+        searchedAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Detects binary files by looking for NUL bytes in the first block
+   */
+  private static async isBinaryFile(filePath: string): Promise<boolean> {
+    const fd = await open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(this.BINARY_SNIFF_BYTES);
+      const { bytesRead } = await read(fd, buffer, 0, buffer.length, 0);
+      return buffer.subarray(0, bytesRead).includes(0);
+    } finally {
+      await close(fd);
+    }
+  }
+
+  /**
+   * Cuts long lines down to a window around the first match and shifts the
+   * match offsets so they are relative to the returned snippet
+   */
+  private static createSnippet(line: string, offsets: ContentSearchMatch['matches']): Pick<ContentSearchMatch, 'snippet' | 'matches'> {
+    if (line.length <= this.MAX_SNIPPET_LENGTH) {
+      return { snippet: line, matches: offsets };
+    }
+
+    const windowStart = Math.max(0, (offsets[0]?.start ?? 0) - this.SNIPPET_CONTEXT);
+    const windowEnd = Math.min(line.length, windowStart + this.MAX_SNIPPET_LENGTH);
+
+    return {
+      snippet: line.slice(windowStart, windowEnd),
+      matches: offsets
+        .filter(offset => offset.start < windowEnd)
+        .map(offset => ({
+          start: offset.start - windowStart,
+          end: Math.min(offset.end, windowEnd) - windowStart,
+        })),
+    };
+  }
+
+  /**
+   * Scans a single text file line by line, collecting matches until the
+   * remaining match budget or the deadline is exhausted
+   */
+  private static async searchFile(
+    filePath: string,
+    displayPath: string,
+    regex: RegExp,
+    maxMatches: number,
+    deadline: number
+  ): Promise<{ results: ContentSearchMatch[]; timedOut: boolean }> {
+    const results: ContentSearchMatch[] = [];
+    const stream = fs.createReadStream(filePath, { encoding: 'utf8' });
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    let lineNumber = 0;
+    let timedOut = false;
+
+    try {
+      for await (const line of lines) {
+        lineNumber++;
+
+        if (Date.now() > deadline) {
+          timedOut = true;
+          break;
+        }
+
+        const offsets: ContentSearchMatch['matches'] = [];
+        regex.lastIndex = 0;
+        for (let match = regex.exec(line); match; match = regex.exec(line)) {
+          offsets.push({ start: match.index, end: match.index + match[0].length });
+          // Avoid looping forever on zero-length matches
+          if (match[0].length === 0) {
+            regex.lastIndex++;
+          }
+        }
+
+        if (offsets.length > 0) {
+          results.push({ path: displayPath, line: lineNumber, ...this.createSnippet(line, offsets) });
+          if (results.length >= maxMatches) {
+            break;
+          }
+        }
+      }
+    } finally {
+      lines.close();
+      stream.destroy();
+    }
+
+    return { results, timedOut };
+  }
+
+  /**
+   * Recursively searches the contents of text files under a base path, like
+   * `grep -rn`. Binary files and files above the size limit are skipped, and
+   * the search stops once the match limit or time budget is reached.
+   */
+  public static async searchContent(basePath: string, options: ContentSearchOptions): Promise<ContentSearchResponse> {
+    const normalizedPath = await DirectoryService.validatePath(basePath);
+
+    const startedAt = Date.now();
+    const deadline = startedAt + options.timeoutMs;
+    const maxFileSize = Math.min(options.maxFileSize, this.MAX_CONTENT_FILE_SIZE);
+    logger.info(`Searching file contents under: ${normalizedPath}`, { ...options, maxFileSize });
+
+    if (options.isRegex) {
+      this.assertSafeRegExp(options.query);
+    }
+
+    let regex: RegExp;
+    try {
+      const source = options.isRegex ? options.query : escapeRegExp(options.query);
+      regex = new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+    } catch {
+      throw createError('Invalid regular expression', 400);
+    }
+
+    const filePatternRegex = options.filePattern ? globToRegExp(options.filePattern) : null;
+    const matchesFilePattern = (name: string, relativePath: string): boolean =>
+      !filePatternRegex || filePatternRegex.test(options.filePattern?.includes('/') ? relativePath : name);
+
+    // A single file can be searched directly
+    const pathStats = await stat(normalizedPath);
+    const fileName = path.basename(normalizedPath);
+    const candidates: Iterable<Pick<WalkEntry, 'name' | 'path' | 'relativePath'>> | AsyncIterable<WalkEntry> =
+      pathStats.isDirectory()
+        ? DirectoryService.walk(normalizedPath, options.maxDepth, options.includeHidden)
+        : [{ name: fileName, path: normalizedPath, relativePath: fileName }];
+
+    const results: ContentSearchMatch[] = [];
+    const matchedFiles = new Set<string>();
+    let filesScanned = 0;
+    let filesSkipped = 0;
+    let truncated = false;
+    let timedOut = false;
+
+    for await (const entry of candidates) {
+      if (Date.now() > deadline) {
+        timedOut = true;
+        break;
+      }
+
+      if (!matchesFilePattern(entry.name, entry.relativePath)) {
+        continue;
+      }
+
+      // Symlinked files must not lead outside the allowed roots or onto denied paths
+      let realFilePath: string;
+      try {
+        realFilePath = await PathGuard.resolve(entry.path);
+      } catch {
+        filesSkipped++;
+        continue;
+      }
+
+      try {
+        const fileStats = await stat(realFilePath);
+        if (!fileStats.isFile()) {
+          continue;
+        }
+
+        if (fileStats.size > maxFileSize || await this.isBinaryFile(realFilePath)) {
+          filesSkipped++;
+          continue;
+        }
+
+        filesScanned++;
+        const fileResult = await this.searchFile(realFilePath, entry.path, regex, options.maxMatches - results.length, deadline);
+        if (fileResult.results.length > 0) {
+          matchedFiles.add(entry.path);
+          results.push(...fileResult.results);
+        }
+
+        if (fileResult.timedOut) {
+          timedOut = true;
+          break;
+        }
+      } catch (error) {
+        filesSkipped++;
+        logger.warn(`Failed to search file: ${entry.path}`, { error: (error as Error).message });
+      }
+
+      if (results.length >= options.maxMatches) {
+        truncated = true;
+        break;
+      }
+    }
+
+    return {
+      path: normalizedPath,
+      query: options.query,
+      results,
+      metadata: {
+        totalMatches: results.length,
+        filesScanned,
+        filesMatched: matchedFiles.size,
+        filesSkipped,
+        truncated,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+        searchedAt: new Date().toISOString(),
+      },
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { TrashItem, TrashListResponse } from '../types/directory';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { moveEntry } from '../utils/fileOps';
+
+/**
+ * Server-side trash for deleted entries.
+ *
+ * Each entry is moved into TRASH_DIR under a random id, next to an
+ * `<id>.json` file recording where it came from, so it can be restored or
+ * purged later. TRASH_DIR should live outside the allowed roots and, to keep
+ * deletes cheap, on the same filesystem as them; otherwise entries are copied.
+ */
+export class TrashService {
+  private static readonly TRASH_DIR = path.resolve(process.env.TRASH_DIR || path.join(process.cwd(), 'trash'));
+  private static readonly ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+  private static getStoredPath(id: string): string {
+    return path.join(this.TRASH_DIR, id);
+  }
+
+  private static getInfoPath(id: string): string {
+    return path.join(this.TRASH_DIR, `${id}.json`);
+  }
+
+  /**
+   * Moves an entry to the trash. The record is written first, so an entry is
+   * never in the trash without one.
+   */
+  public static async add(entryPath: string, stats: fs.Stats): Promise<TrashItem> {
+    await fs.promises.mkdir(this.TRASH_DIR, { recursive: true, mode: 0o700 });
+
+    const item: TrashItem = {
+      id: crypto.randomUUID(),
+      name: path.basename(entryPath),
+      originalPath: entryPath,
+      type: stats.isSymbolicLink() ? 'symlink' : stats.isDirectory() ? 'directory' : 'file',
+      size: stats.isFile() ? stats.size : 0,
+      deletedAt: new Date().toISOString(),
+    };
+
+    await fs.promises.writeFile(this.getInfoPath(item.id), JSON.stringify(item), { mode: 0o600 });
+    try {
+      await moveEntry(entryPath, this.getStoredPath(item.id));
+    } catch (error) {
+      await fs.promises.rm(this.getInfoPath(item.id), { force: true });
+      throw error;
+    }
+
+    logger.info(`Moved to trash: ${entryPath}`, { id: item.id });
+    return item;
+  }
+
+  /**
+   * Lists the trash, most recently deleted first
+   */
+  public static async list(): Promise<TrashListResponse> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.TRASH_DIR);
+    } catch {
+      names = [];
+    }
+
+    const items: TrashItem[] = [];
+    for (const name of names) {
+      const id = name.replace(/\.json$/, '');
+      if (id === name || !this.ID_PATTERN.test(id)) {
+        continue;
+      }
+
+      try {
+        items.push(JSON.parse(await fs.promises.readFile(this.getInfoPath(id), 'utf8')) as TrashItem);
+      } catch (error) {
+        logger.warn(`Unreadable trash record: ${name}`, { error: (error as Error).message });
+      }
+    }
+
+    items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+    return {
+      items,
+      metadata: {
+        totalItems: items.length,
+        totalSize: items.reduce((sum, item) => sum + item.size, 0),
+      },
+    };
+  }
+
+  /**
+   * Looks up a trashed entry and where it is stored
+   */
+  public static async get(id: string): Promise<{ item: TrashItem; storedPath: string }> {
+    if (!this.ID_PATTERN.test(id)) {
+      throw createError('Trash item not found', 404, 'TRASH_ITEM_NOT_FOUND');
+    }
+
+    try {
+      const item = JSON.parse(await fs.promises.readFile(this.getInfoPath(id), 'utf8')) as TrashItem;
+      await fs.promises.lstat(this.getStoredPath(id));
+      return { item, storedPath: this.getStoredPath(id) };
+    } catch {
+      throw createError('Trash item not found', 404, 'TRASH_ITEM_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Drops the record of an entry that has been moved back out of the trash
+   */
+  public static async forget(id: string): Promise<void> {
+    await fs.promises.rm(this.getInfoPath(id), { force: true });
+  }
+
+  /**
+   * Permanently deletes trashed entries. Resolves with the number of entries
+   * deleted.
+   */
+  public static async purge(ids: string[]): Promise<number> {
+    for (const id of ids) {
+      await fs.promises.rm(this.getStoredPath(id), { recursive: true, force: true });
+      await this.forget(id);
+    }
+
+    logger.info('Purged trash', { purged: ids.length });
+    return ids.length;
+  }
+}
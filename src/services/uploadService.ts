@@ -0,0 +1,372 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { IncomingHttpHeaders } from 'http';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import busboy from 'busboy';
+import { ConflictPolicy, UploadResponse, WriteResult } from '../types/directory';
+import { DirectoryService } from './directoryService';
+import { WriteService } from './writeService';
+import { createError } from '../middleware/errorHandler';
+import { parseExtensions } from '../utils/glob';
+import { logger } from '../utils/logger';
+import { PathGuard } from '../utils/pathGuard';
+import { lstatOrNull } from '../utils/fileOps';
+import { SCAN_CONCURRENCY, mapWithConcurrency } from '../utils/concurrency';
+
+interface ReceivedFile {
+  name: string;
+  tempPath: string;
+  size: number;
+}
+
+/**
+ * Reads UPLOAD_ROOT_QUOTA_BYTES. The quota is kept per allowed root, so
+ * without ALLOWED_ROOTS it could not be enforced and the server refuses to
+ * start instead.
+ */
+const readRootQuota = (): number => {
+  const quota = parseInt(process.env.UPLOAD_ROOT_QUOTA_BYTES || '0');
+  if (quota > 0 && !PathGuard.hasConfiguredRoots()) {
+    throw new Error('UPLOAD_ROOT_QUOTA_BYTES requires ALLOWED_ROOTS to be set');
+  }
+
+  return quota;
+};
+
+/**
+ * Receives multipart/form-data uploads into a directory.
+ *
+ * Every file is streamed to a hidden temporary file next to its destination
+ * and renamed into place once the whole request has arrived, so readers never
+ * see a partial file and a failed request leaves nothing behind. Requests are
+ * limited to UPLOAD_MAX_BYTES and UPLOAD_MAX_FILES; with UPLOAD_ROOT_QUOTA_BYTES
+ * set, uploads that would grow an allowed root beyond it are rejected.
+ */
+export class UploadService {
+  public static readonly MAX_REQUEST_BYTES = parseInt(process.env.UPLOAD_MAX_BYTES || '104857600'); // 100 MB
+  public static readonly MAX_FILES = parseInt(process.env.UPLOAD_MAX_FILES || '20');
+  private static readonly ROOT_QUOTA_BYTES = readRootQuota();
+  private static readonly QUOTA_CACHE_TTL_MS = parseInt(process.env.UPLOAD_QUOTA_CACHE_TTL_MS || '60000');
+  // Usage scans are bounded like /usage scans
+  private static readonly QUOTA_SCAN_TIMEOUT_MS = parseInt(process.env.DISK_USAGE_TIMEOUT_MS || '60000');
+  private static readonly ALLOWED_EXTENSIONS = parseExtensions(process.env.UPLOAD_ALLOWED_EXTENSIONS);
+  // Room for part headers and boundaries when checking Content-Length up front
+  private static readonly MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+  private static readonly TEMP_PREFIX = '.upload-';
+
+  private static readonly rootUsage = new Map<string, { bytes: number; measuredAt: number }>();
+  private static readonly reservedBytes = new Map<string, number>();
+
+  /**
+   * Stores the files of a multipart request in a directory, applying the
+   * conflict policy to each of them. With `fail`, every name is checked
+   * before any file is put in place.
+   */
+  public static async upload(
+    dirPath: string,
+    input: Readable,
+    headers: IncomingHttpHeaders,
+    conflict: ConflictPolicy
+  ): Promise<UploadResponse> {
+    const directory = await WriteService.resolveDirectory(dirPath);
+
+    const contentLength = parseInt(headers['content-length'] ?? '', 10);
+    if (contentLength > this.MAX_REQUEST_BYTES + this.MULTIPART_OVERHEAD_BYTES) {
+      throw createError(`Uploads are limited to ${this.MAX_REQUEST_BYTES} bytes per request`, 413, 'UPLOAD_TOO_LARGE');
+    }
+
+    const startedAt = Date.now();
+    const reservation = Number.isNaN(contentLength) ? this.MAX_REQUEST_BYTES : contentLength;
+    const root = await this.reserveQuota(directory, reservation);
+    logger.info(`Receiving upload: ${directory}`, { contentLength, conflict });
+
+    const results: WriteResult[] = [];
+    let received: ReceivedFile[] = [];
+    try {
+      received = await this.receiveFiles(directory, input, headers, conflict);
+
+      if (conflict === 'fail') {
+        await this.checkDestinations(directory, received);
+      }
+
+      for (const file of received) {
+        const { path: target, replaced } = await WriteService.resolveDestination(directory, file.name, conflict);
+        try {
+          await fs.promises.rename(file.tempPath, target);
+        } catch (error) {
+          throw WriteService.toWriteError(error as NodeJS.ErrnoException);
+        }
+        results.push(await WriteService.createResult('upload', null, target, replaced));
+      }
+    } finally {
+      await this.removeTempFiles(received);
+      this.releaseQuota(root, reservation, results.reduce((sum, result) => sum + result.entry.size, 0));
+    }
+
+    const totalBytes = received.reduce((sum, file) => sum + file.size, 0);
+    logger.info(`Upload stored: ${directory}`, { files: results.length, totalBytes });
+
+    return {
+      path: directory,
+      files: results,
+      metadata: {
+        totalFiles: results.length,
+        totalBytes,
+        durationMs: Date.now() - startedAt,
+        uploadedAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Checks a file name from the request and the extension allowlist
+   */
+  private static validateFileName(name: string): void {
+    WriteService.validateName(name);
+
+    if (this.ALLOWED_EXTENSIONS.length > 0 && !this.ALLOWED_EXTENSIONS.includes(path.extname(name).toLowerCase())) {
+      throw createError(
+        `File type not allowed: ${name}. Allowed extensions: ${this.ALLOWED_EXTENSIONS.join(', ')}`,
+        415,
+        'EXTENSION_NOT_ALLOWED'
+      );
+    }
+  }
+
+  /**
+   * Parses the multipart body, writing each file to a temporary file in the
+   * target directory. On any failure the rest of the body is discarded, the
+   * temporary files are removed and the promise rejects.
+   */
+  private static receiveFiles(
+    directory: string,
+    input: Readable,
+    headers: IncomingHttpHeaders,
+    conflict: ConflictPolicy
+  ): Promise<ReceivedFile[]> {
+    return new Promise((resolve, reject) => {
+      let parser: busboy.Busboy;
+      try {
+        parser = busboy({
+          headers,
+          limits: { files: this.MAX_FILES, fileSize: this.MAX_REQUEST_BYTES },
+        });
+      } catch (error) {
+        reject(createError(`Invalid upload: ${(error as Error).message}`, 400, 'INVALID_UPLOAD'));
+        return;
+      }
+
+      const received: ReceivedFile[] = [];
+      const writes: Promise<void>[] = [];
+      const outputs: fs.WriteStream[] = [];
+      let totalBytes = 0;
+      let failed = false;
+
+      const fail = (error: Error): void => {
+        if (failed) {
+          return;
+        }
+        failed = true;
+
+        // Stop parsing and discard whatever the client is still sending
+        input.unpipe(parser);
+        input.resume();
+        outputs.forEach((output) => output.destroy());
+
+        Promise.allSettled(writes)
+          .then(() => this.removeTempFiles(received))
+          .finally(() => reject(error));
+      };
+
+      parser.on('file', (_field, file, info) => {
+        if (failed) {
+          file.resume();
+          return;
+        }
+
+        try {
+          this.validateFileName(info.filename);
+        } catch (error) {
+          file.resume();
+          fail(error as Error);
+          return;
+        }
+
+        const entry: ReceivedFile = {
+          name: info.filename,
+          tempPath: path.join(directory, `${this.TEMP_PREFIX}${crypto.randomUUID()}.part`),
+          size: 0,
+        };
+        received.push(entry);
+
+        file.on('data', (chunk: Buffer) => {
+          entry.size += chunk.length;
+          totalBytes += chunk.length;
+          if (totalBytes > this.MAX_REQUEST_BYTES) {
+            fail(createError(`Uploads are limited to ${this.MAX_REQUEST_BYTES} bytes per request`, 413, 'UPLOAD_TOO_LARGE'));
+          }
+        });
+        file.on('limit', () => {
+          fail(createError(`Uploads are limited to ${this.MAX_REQUEST_BYTES} bytes per request`, 413, 'UPLOAD_TOO_LARGE'));
+        });
+
+        const output = fs.createWriteStream(entry.tempPath, { flags: 'wx', mode: 0o644 });
+        outputs.push(output);
+        writes.push(pipeline(file, output).catch((error) => {
+          fail(WriteService.toWriteError(error as NodeJS.ErrnoException));
+        }));
+
+        if (conflict === 'fail') {
+          // Reject early instead of receiving a file that cannot be stored
+          writes.push(lstatOrNull(path.join(directory, entry.name)).then((existing) => {
+            if (existing) {
+              fail(createError(`Destination already exists: ${path.join(directory, entry.name)}`, 409, 'DESTINATION_EXISTS'));
+            }
+          }));
+        }
+      });
+
+      parser.on('filesLimit', () => {
+        fail(createError(`At most ${this.MAX_FILES} files can be uploaded at once`, 413, 'TOO_MANY_FILES'));
+      });
+
+      parser.on('error', (error: Error) => {
+        fail(createError(`Invalid upload: ${error.message}`, 400, 'INVALID_UPLOAD'));
+      });
+
+      parser.on('close', () => {
+        Promise.all(writes).then(() => {
+          if (failed) {
+            return;
+          }
+          if (received.length === 0) {
+            fail(createError('The upload contains no files', 400, 'INVALID_UPLOAD'));
+            return;
+          }
+          resolve(received);
+        });
+      });
+
+      input.on('aborted', () => fail(createError('Upload was aborted by the client', 400, 'INVALID_UPLOAD')));
+      input.pipe(parser);
+    });
+  }
+
+  /**
+   * Rejects the upload if any file would replace an existing entry or
+   * another file of the same request
+   */
+  private static async checkDestinations(directory: string, files: ReceivedFile[]): Promise<void> {
+    const names = new Set<string>();
+
+    for (const file of files) {
+      const destination = path.join(directory, file.name);
+      if (names.has(file.name) || (await lstatOrNull(destination))) {
+        throw createError(`Destination already exists: ${destination}`, 409, 'DESTINATION_EXISTS');
+      }
+      names.add(file.name);
+    }
+  }
+
+  /**
+   * Removes temporary files that were not renamed into place
+   */
+  private static async removeTempFiles(files: ReceivedFile[]): Promise<void> {
+    await Promise.all(files.map((file) => fs.promises.rm(file.tempPath, { force: true })));
+  }
+
+  /**
+   * Returns the bytes of the files below an allowed root, measuring it again
+   * once the cached figure is older than QUOTA_CACHE_TTL_MS.
+   *
+   * The root is walked directly instead of through the path checks: callers
+   * may only be allowed into part of it, and the measurement is not an access
+   * made on their behalf.
+   */
+  private static async getRootUsage(root: string): Promise<number> {
+    const cached = this.rootUsage.get(root);
+    if (cached && Date.now() - cached.measuredAt < this.QUOTA_CACHE_TTL_MS) {
+      return cached.bytes;
+    }
+
+    const deadline = Date.now() + this.QUOTA_SCAN_TIMEOUT_MS;
+    let bytes = 0;
+    let batch: string[] = [];
+
+    const measure = async (files: string[]): Promise<void> => {
+      const sizes = await mapWithConcurrency(files, SCAN_CONCURRENCY, async (file) => (await lstatOrNull(file))?.size ?? 0);
+      bytes += sizes.reduce((sum, size) => sum + size, 0);
+    };
+
+    for await (const entry of DirectoryService.walk(root, Infinity, true)) {
+      if (Date.now() >= deadline) {
+        logger.warn(`Quota usage scan timed out, usage is a lower bound: ${root}`);
+        break;
+      }
+
+      if (entry.dirent.isFile()) {
+        batch.push(entry.path);
+        if (batch.length >= SCAN_CONCURRENCY) {
+          await measure(batch);
+          batch = [];
+        }
+      }
+    }
+    await measure(batch);
+
+    this.rootUsage.set(root, { bytes, measuredAt: Date.now() });
+    return bytes;
+  }
+
+  /**
+   * Checks the quota of the root containing a directory and holds `bytes`
+   * of it for the request, so concurrent uploads can't exceed it together.
+   * Resolves with the root, or null when no quota applies.
+   */
+  private static async reserveQuota(directory: string, bytes: number): Promise<string | null> {
+    if (this.ROOT_QUOTA_BYTES <= 0) {
+      return null;
+    }
+
+    const root = await PathGuard.getRoot(directory);
+    if (!root) {
+      return null;
+    }
+
+    const used = await this.getRootUsage(root);
+    const reserved = this.reservedBytes.get(root) ?? 0;
+    if (used + reserved + bytes > this.ROOT_QUOTA_BYTES) {
+      throw createError(
+        `Upload would exceed the ${this.ROOT_QUOTA_BYTES} byte quota of ${root} (${used} bytes used)`,
+        507,
+        'QUOTA_EXCEEDED'
+      );
+    }
+
+    this.reservedBytes.set(root, reserved + bytes);
+    return root;
+  }
+
+  /**
+   * Gives back a reservation and counts the bytes that were stored
+   */
+  private static releaseQuota(root: string | null, reserved: number, stored: number): void {
+    if (!root) {
+      return;
+    }
+
+    const remaining = (this.reservedBytes.get(root) ?? reserved) - reserved;
+    if (remaining > 0) {
+      this.reservedBytes.set(root, remaining);
+    } else {
+      this.reservedBytes.delete(root);
+    }
+
+    const usage = this.rootUsage.get(root);
+    if (usage) {
+      usage.bytes += stored;
+    }
+  }
+}
@@ -0,0 +1,319 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { DirectoryWatchEvent, FileInfo } from '../types/directory';
+import { DirectoryService } from './directoryService';
+import { createError } from '../middleware/errorHandler';
+import { SCAN_CONCURRENCY, mapWithConcurrency } from '../utils/concurrency';
+import { logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext';
+
+const readdir = promisify(fs.readdir);
+const stat = promisify(fs.stat);
+
+interface WatchSubscriber {
+  clientId: string;
+  includeHidden: boolean;
+  listener: (event: DirectoryWatchEvent) => void;
+}
+
+interface DirectoryWatch {
+  key: string;
+  dirPath: string;
+  followSymlinks: boolean;
+  watcher: fs.FSWatcher;
+  // Last known info per entry name; null until the watcher has stat'ed it
+  known: Map<string, FileInfo | null>;
+  pending: Set<string>;
+  rescan: boolean;
+  timer: NodeJS.Timeout | null;
+  subscribers: Set<WatchSubscriber>;
+}
+
+/**
+ * Turns filesystem notifications for a directory into add, change and delete
+ * events for its entries.
+ *
+ * Clients watching the same directory share a single `fs.watch`. Notifications
+ * are collected for WATCH_DEBOUNCE_MS and then flushed as one event per
+ * affected entry, so a file being written continuously produces at most one
+ * change event per window. Each client (by IP) may hold at most
+ * WATCH_MAX_PER_CLIENT watches at once.
+ */
+export class DirectoryWatchService {
+  private static readonly DEBOUNCE_MS = parseInt(process.env.WATCH_DEBOUNCE_MS || '250');
+  private static readonly MAX_PER_CLIENT = parseInt(process.env.WATCH_MAX_PER_CLIENT || '5');
+
+  private static readonly watches = new Map<string, DirectoryWatch>();
+  private static readonly clientCounts = new Map<string, number>();
+
+  /**
+   * Starts delivering change events for a directory to a listener. Resolves
+   * with the resolved directory path and a function that stops the watch.
+   */
+  public static async subscribe(
+    dirPath: string,
+    clientId: string,
+    includeHidden: boolean,
+    followSymlinks: boolean,
+    listener: (event: DirectoryWatchEvent) => void
+  ): Promise<{ path: string; unsubscribe: () => void }> {
+    const normalizedPath = await DirectoryService.validatePath(dirPath);
+
+    const pathStats = await stat(normalizedPath);
+    if (!pathStats.isDirectory()) {
+      throw createError('Path is not a directory', 400);
+    }
+
+    const clientCount = this.clientCounts.get(clientId) ?? 0;
+    if (clientCount >= this.MAX_PER_CLIENT) {
+      throw createError(`At most ${this.MAX_PER_CLIENT} directories can be watched at once`, 429, 'TOO_MANY_WATCHES');
+    }
+
+    // Count the watch before setting it up, so concurrent requests can't exceed the cap
+    this.clientCounts.set(clientId, clientCount + 1);
+
+    let watch: DirectoryWatch;
+    try {
+      watch = await this.getWatch(normalizedPath, followSymlinks);
+    } catch (error) {
+      this.release(clientId);
+      throw error;
+    }
+
+    const subscriber: WatchSubscriber = { clientId, includeHidden, listener };
+    watch.subscribers.add(subscriber);
+
+    logger.info(`Watching directory: ${normalizedPath}`, { clientId, subscribers: watch.subscribers.size });
+
+    let active = true;
+    const unsubscribe = (): void => {
+      if (!active) {
+        return;
+      }
+      active = false;
+
+      watch.subscribers.delete(subscriber);
+      this.release(clientId);
+
+      if (watch.subscribers.size === 0) {
+        this.close(watch);
+      }
+      logger.info(`Stopped watching directory: ${normalizedPath}`, { clientId });
+    };
+
+    return { path: normalizedPath, unsubscribe };
+  }
+
+  /**
+   * Gives back one of a client's watch slots
+   */
+  private static release(clientId: string): void {
+    const remaining = (this.clientCounts.get(clientId) ?? 1) - 1;
+    if (remaining > 0) {
+      this.clientCounts.set(clientId, remaining);
+    } else {
+      this.clientCounts.delete(clientId);
+    }
+  }
+
+  /**
+   * Returns the number of open watches and watched directories
+   */
+  public static getStats(): { directories: number; subscribers: number } {
+    let subscribers = 0;
+    for (const watch of this.watches.values()) {
+      subscribers += watch.subscribers.size;
+    }
+
+    return { directories: this.watches.size, subscribers };
+  }
+
+  /**
+   * Returns the shared watch for a directory, creating it if needed. Events
+   * are built in the context of the client that created the watch, and links
+   * are only followed inside the caller's roots, so clients confined to
+   * different roots do not share watches.
+   */
+  private static async getWatch(normalizedPath: string, followSymlinks: boolean): Promise<DirectoryWatch> {
+    const scopedRoots = getRequestContext()?.roots ?? null;
+    const key = JSON.stringify([normalizedPath, followSymlinks, scopedRoots]);
+    const existing = this.watches.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const names = await readdir(normalizedPath);
+
+    // Another subscriber may have created the watch while the directory was read
+    const created = this.watches.get(key);
+    if (created) {
+      return created;
+    }
+
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(normalizedPath, { persistent: false }, (_eventType, fileName) => {
+        if (fileName) {
+          watch.pending.add(fileName.toString());
+        } else {
+          // Some platforms don't report the name, so compare the whole directory
+          watch.rescan = true;
+        }
+        this.schedule(watch);
+      });
+    } catch (error) {
+      logger.warn(`Cannot watch directory: ${normalizedPath}`, { error: (error as Error).message });
+      throw createError('Directory cannot be watched', 503, 'WATCH_UNAVAILABLE');
+    }
+
+    const watch: DirectoryWatch = {
+      key,
+      dirPath: normalizedPath,
+      followSymlinks,
+      watcher,
+      known: new Map(names.map((name) => [name, null])),
+      pending: new Set(),
+      rescan: false,
+      timer: null,
+      subscribers: new Set(),
+    };
+
+    watch.watcher.on('error', (error) => {
+      logger.warn(`Directory watcher failed: ${normalizedPath}`, { error: error.message });
+      this.fail(watch, 'Directory can no longer be watched');
+    });
+
+    this.watches.set(key, watch);
+    return watch;
+  }
+
+  /**
+   * Flushes pending notifications once the debounce window has passed. The
+   * window starts with the first notification, so constant activity still
+   * produces events at a steady rate.
+   */
+  private static schedule(watch: DirectoryWatch): void {
+    if (watch.timer) {
+      return;
+    }
+
+    watch.timer = setTimeout(() => {
+      watch.timer = null;
+      this.flush(watch).catch((error) => {
+        logger.error(`Failed to process changes in ${watch.dirPath}`, { error: error.message });
+      });
+    }, this.DEBOUNCE_MS);
+  }
+
+  /**
+   * Stats every entry with pending notifications and emits the resulting events
+   */
+  private static async flush(watch: DirectoryWatch): Promise<void> {
+    let names = Array.from(watch.pending);
+    watch.pending.clear();
+
+    if (watch.rescan) {
+      watch.rescan = false;
+      try {
+        const current = await readdir(watch.dirPath);
+        names = Array.from(new Set([...names, ...current, ...watch.known.keys()]));
+      } catch {
+        // Handled by the directory check below
+      }
+    }
+
+    try {
+      const dirStats = await stat(watch.dirPath);
+      if (!dirStats.isDirectory()) {
+        throw new Error('Not a directory');
+      }
+    } catch {
+      this.fail(watch, 'Directory no longer exists');
+      return;
+    }
+
+    const events = await mapWithConcurrency(names, SCAN_CONCURRENCY, async (name): Promise<DirectoryWatchEvent | null> => {
+      const entryPath = path.join(watch.dirPath, name);
+      const previous = watch.known.get(name);
+
+      try {
+        const entry = await DirectoryService.createFileInfo(entryPath, name, watch.followSymlinks);
+        if (previous && this.isUnchanged(previous, entry)) {
+          return null;
+        }
+
+        watch.known.set(name, entry);
+        return { type: previous === undefined ? 'add' : 'change', path: watch.dirPath, name, entry };
+      } catch {
+        if (previous === undefined) {
+          // Created and removed within the same window
+          return null;
+        }
+
+        watch.known.delete(name);
+        return { type: 'delete', path: watch.dirPath, name, entry: previous };
+      }
+    });
+
+    for (const event of events) {
+      if (event) {
+        this.emit(watch, event);
+      }
+    }
+  }
+
+  /**
+   * Compares the fields a notification can change, ignoring repeated events
+   * for the same write
+   */
+  private static isUnchanged(previous: FileInfo, current: FileInfo): boolean {
+    return previous.type === current.type &&
+      previous.size === current.size &&
+      previous.modifiedDate === current.modifiedDate &&
+      previous.permissions.mode === current.permissions.mode &&
+      previous.linkTarget === current.linkTarget;
+  }
+
+  /**
+   * Delivers an event to every subscriber that wants to see the entry
+   */
+  private static emit(watch: DirectoryWatch, event: DirectoryWatchEvent): void {
+    const hidden = event.type !== 'error' && DirectoryService.isHiddenName(event.name);
+
+    for (const subscriber of watch.subscribers) {
+      if (hidden && !subscriber.includeHidden) {
+        continue;
+      }
+
+      try {
+        subscriber.listener(event);
+      } catch (error) {
+        logger.warn(`Watch listener failed for ${watch.dirPath}`, { error: (error as Error).message });
+      }
+    }
+  }
+
+  /**
+   * Tells every subscriber that the watch has ended and releases it
+   */
+  private static fail(watch: DirectoryWatch, message: string): void {
+    this.emit(watch, { type: 'error', path: watch.dirPath, message });
+    this.close(watch);
+  }
+
+  /**
+   * Stops the underlying watcher and forgets the directory
+   */
+  private static close(watch: DirectoryWatch): void {
+    if (watch.timer) {
+      clearTimeout(watch.timer);
+      watch.timer = null;
+    }
+
+    watch.watcher.close();
+    if (this.watches.get(watch.key) === watch) {
+      this.watches.delete(watch.key);
+    }
+  }
+}
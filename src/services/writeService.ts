@@ -0,0 +1,342 @@
+import fs from 'fs';
+import path from 'path';
+import { ConflictPolicy, TrashItem, TrashListResponse, WriteOperation, WriteResult } from '../types/directory';
+import { DirectoryService } from './directoryService';
+import { ListingCacheService } from './listingCacheService';
+import { TrashService } from './trashService';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { PathGuard } from '../utils/pathGuard';
+import { lstatOrNull, moveEntry } from '../utils/fileOps';
+import { SCAN_CONCURRENCY, mapWithConcurrency } from '../utils/concurrency';
+import { recordAccessedPath } from '../utils/requestContext';
+
+/**
+ * Creates, renames, moves, copies and deletes entries inside the allowed
+ * roots. Disabled unless WRITE_ENABLED is `true`.
+ *
+ * Existing entries are resolved through their parent directory, so a
+ * symbolic link is renamed, moved or deleted itself rather than its target.
+ * Deleted entries, and entries replaced by an `overwrite`, go to the trash.
+ */
+export class WriteService {
+  public static readonly ENABLED = process.env.WRITE_ENABLED === 'true';
+  public static readonly CONFLICT_POLICIES: readonly ConflictPolicy[] = ['fail', 'overwrite', 'rename'];
+  private static readonly MAX_NAME_LENGTH = 255;
+  private static readonly MAX_RENAME_ATTEMPTS = 1000;
+
+  /**
+   * Rejects names that are empty, special or contain a path separator
+   */
+  public static validateName(name: string): void {
+    if (!name || name === '.' || name === '..' || /[\\/\0]/.test(name) || name.length > this.MAX_NAME_LENGTH) {
+      throw createError('Invalid file name', 400, 'INVALID_NAME');
+    }
+  }
+
+  /**
+   * Checks whether a path is the given directory or lies below it
+   */
+  private static isWithin(directory: string, filePath: string): boolean {
+    return filePath === directory || filePath.startsWith(directory + path.sep);
+  }
+
+  /**
+   * Validates a directory that entries are written into
+   */
+  public static async resolveDirectory(dirPath: string): Promise<string> {
+    const normalizedPath = await DirectoryService.validatePath(dirPath);
+    const stats = await fs.promises.stat(normalizedPath);
+    if (!stats.isDirectory()) {
+      throw createError('Destination is not a directory', 400);
+    }
+
+    return normalizedPath;
+  }
+
+  /**
+   * Resolves an existing entry that is about to be modified. The parent
+   * directory goes through the usual path checks; the entry itself is not
+   * dereferenced.
+   */
+  private static async resolveEntry(requestedPath: string): Promise<{ path: string; stats: fs.Stats }> {
+    const name = path.basename(requestedPath);
+    this.validateName(name);
+
+    const entryPath = path.join(await this.resolveDirectory(path.dirname(requestedPath)), name);
+    if (PathGuard.isDenied(entryPath)) {
+      throw createError('Access to this path is restricted', 403, 'PATH_DENIED');
+    }
+
+    const stats = await lstatOrNull(entryPath);
+    if (!stats) {
+      throw createError('Path does not exist or is not readable', 404);
+    }
+
+    return { path: entryPath, stats };
+  }
+
+  /**
+   * Decides where an entry called `name` goes in `directory` under a conflict
+   * policy. `source` is the entry being written, which an overwrite must not
+   * replace (directly or through one of its parents).
+   */
+  public static async resolveDestination(
+    directory: string,
+    name: string,
+    conflict: ConflictPolicy,
+    source: string | null = null
+  ): Promise<{ path: string; replaced: TrashItem | null }> {
+    const destination = path.join(directory, name);
+    if (PathGuard.isDenied(destination)) {
+      throw createError('Access to this path is restricted', 403, 'PATH_DENIED');
+    }
+
+    const existing = await lstatOrNull(destination);
+    if (!existing) {
+      return { path: destination, replaced: null };
+    }
+
+    switch (conflict) {
+      case 'fail':
+        throw createError(`Destination already exists: ${destination}`, 409, 'DESTINATION_EXISTS');
+      case 'overwrite':
+        if (source && this.isWithin(destination, source)) {
+          throw createError('An entry cannot overwrite itself or a directory containing it', 400, 'INVALID_DESTINATION');
+        }
+        return { path: destination, replaced: await TrashService.add(destination, existing) };
+      case 'rename':
+        return { path: await this.findFreeName(directory, name), replaced: null };
+    }
+  }
+
+  /**
+   * Finds a free name like `report (2).csv` next to an existing entry
+   */
+  private static async findFreeName(directory: string, name: string): Promise<string> {
+    const extension = path.extname(name);
+    const base = name.slice(0, name.length - extension.length);
+
+    for (let i = 1; i <= this.MAX_RENAME_ATTEMPTS; i++) {
+      const candidate = path.join(directory, `${base} (${i})${extension}`);
+      if (!(await lstatOrNull(candidate))) {
+        return candidate;
+      }
+    }
+
+    throw createError(`No free name found for ${name}`, 409, 'DESTINATION_EXISTS');
+  }
+
+  /**
+   * Turns filesystem errors from a write into client errors where possible
+   */
+  public static toWriteError(error: NodeJS.ErrnoException): Error {
+    switch (error.code) {
+      case 'EACCES':
+      case 'EPERM':
+      case 'EROFS':
+        return createError('Permission denied', 403, 'PERMISSION_DENIED');
+      case 'EEXIST':
+        return createError('Destination already exists', 409, 'DESTINATION_EXISTS');
+      case 'ENOTDIR':
+      case 'ENOENT':
+        return createError('Path does not exist or is not a directory', 404);
+      case 'ENOSPC':
+      case 'EDQUOT':
+        return createError('Not enough space on the device', 507, 'INSUFFICIENT_STORAGE');
+      default:
+        return error;
+    }
+  }
+
+  /**
+   * Runs the filesystem part of an operation, translating its errors
+   */
+  private static async apply(run: () => Promise<void>): Promise<void> {
+    try {
+      await run();
+    } catch (error) {
+      throw this.toWriteError(error as NodeJS.ErrnoException);
+    }
+  }
+
+  /**
+   * Describes the outcome of an operation and drops the cached listings of
+   * the directories it changed
+   */
+  public static async createResult(
+    operation: WriteOperation,
+    source: string | null,
+    target: string,
+    replaced: TrashItem | null
+  ): Promise<WriteResult> {
+    for (const changed of [source, target]) {
+      if (changed) {
+        ListingCacheService.invalidate(path.dirname(changed));
+        recordAccessedPath(changed);
+      }
+    }
+
+    logger.info(`Write operation ${operation}: ${target}`, { source, replaced: replaced?.id });
+
+    return {
+      operation,
+      source,
+      path: target,
+      entry: await DirectoryService.createFileInfo(target, path.basename(target)),
+      replaced,
+    };
+  }
+
+  /**
+   * Creates a directory. With `parents`, missing parent directories are
+   * created as well.
+   */
+  public static async createDirectory(dirPath: string, parents: boolean, conflict: ConflictPolicy): Promise<WriteResult> {
+    const parentPath = path.dirname(dirPath);
+    if (parents && parentPath !== dirPath && !(await lstatOrNull(parentPath))) {
+      await this.createDirectory(parentPath, true, 'fail');
+    }
+
+    const name = path.basename(dirPath);
+    this.validateName(name);
+
+    const directory = await this.resolveDirectory(parentPath);
+    const { path: target, replaced } = await this.resolveDestination(directory, name, conflict);
+    await this.apply(() => fs.promises.mkdir(target));
+
+    return this.createResult('mkdir', null, target, replaced);
+  }
+
+  /**
+   * Renames an entry within its directory
+   */
+  public static async rename(entryPath: string, newName: string, conflict: ConflictPolicy): Promise<WriteResult> {
+    const source = await this.resolveEntry(entryPath);
+    this.validateName(newName);
+
+    const { path: target, replaced } = await this.resolveDestination(path.dirname(source.path), newName, conflict, source.path);
+    await this.apply(() => fs.promises.rename(source.path, target));
+
+    return this.createResult('rename', source.path, target, replaced);
+  }
+
+  /**
+   * Moves an entry into another directory, keeping its name
+   */
+  public static async move(entryPath: string, destination: string, conflict: ConflictPolicy): Promise<WriteResult> {
+    const source = await this.resolveEntry(entryPath);
+    const directory = await this.resolveDirectory(destination);
+
+    if (this.isWithin(source.path, directory)) {
+      throw createError('A directory cannot be moved into itself', 400, 'INVALID_DESTINATION');
+    }
+
+    const { path: target, replaced } = await this.resolveDestination(directory, path.basename(source.path), conflict, source.path);
+    await this.apply(() => moveEntry(source.path, target));
+
+    return this.createResult('move', source.path, target, replaced);
+  }
+
+  /**
+   * Copies an entry (recursively for directories) into another directory,
+   * or next to itself under a new name with the `rename` policy. Symbolic
+   * links are copied as links and denied paths are left out.
+   */
+  public static async copy(entryPath: string, destination: string, conflict: ConflictPolicy): Promise<WriteResult> {
+    const source = await this.resolveEntry(entryPath);
+    const directory = await this.resolveDirectory(destination);
+
+    if (source.stats.isDirectory() && this.isWithin(source.path, directory)) {
+      throw createError('A directory cannot be copied into itself', 400, 'INVALID_DESTINATION');
+    }
+
+    const { path: target, replaced } = await this.resolveDestination(directory, path.basename(source.path), conflict, source.path);
+    await this.apply(() => fs.promises.cp(source.path, target, {
+      recursive: true,
+      errorOnExist: true,
+      force: false,
+      preserveTimestamps: true,
+      verbatimSymlinks: true,
+      filter: (entry) => !PathGuard.isDenied(entry),
+    }));
+
+    return this.createResult('copy', source.path, target, replaced);
+  }
+
+  /**
+   * Moves an entry to the trash
+   */
+  public static async delete(entryPath: string): Promise<TrashItem> {
+    const source = await this.resolveEntry(entryPath);
+
+    let item: TrashItem | undefined;
+    await this.apply(async () => {
+      item = await TrashService.add(source.path, source.stats);
+    });
+    ListingCacheService.invalidate(path.dirname(source.path));
+
+    return item as TrashItem;
+  }
+
+  /**
+   * Checks whether a trashed entry was deleted from a directory the caller
+   * may access
+   */
+  private static async isVisible(item: TrashItem): Promise<boolean> {
+    return PathGuard.isAllowed(path.dirname(item.originalPath));
+  }
+
+  /**
+   * Lists the entries in the trash that were deleted from directories the
+   * caller may access
+   */
+  public static async listTrash(): Promise<TrashListResponse> {
+    const { items } = await TrashService.list();
+    const visible = await mapWithConcurrency(items, SCAN_CONCURRENCY, (item) => this.isVisible(item));
+    const allowedItems = items.filter((_, index) => visible[index]);
+
+    return {
+      items: allowedItems,
+      metadata: {
+        totalItems: allowedItems.length,
+        totalSize: allowedItems.reduce((sum, item) => sum + item.size, 0),
+      },
+    };
+  }
+
+  /**
+   * Moves a trashed entry back to where it was deleted from. The original
+   * directory must still exist and be allowed.
+   */
+  public static async restore(id: string, conflict: ConflictPolicy): Promise<WriteResult> {
+    const { item, storedPath } = await TrashService.get(id);
+    if (!(await this.isVisible(item))) {
+      throw createError('Trash item not found', 404, 'TRASH_ITEM_NOT_FOUND');
+    }
+
+    const directory = await this.resolveDirectory(path.dirname(item.originalPath));
+
+    const { path: target, replaced } = await this.resolveDestination(directory, item.name, conflict);
+    await this.apply(() => moveEntry(storedPath, target));
+    await TrashService.forget(id);
+
+    return this.createResult('restore', null, target, replaced);
+  }
+
+  /**
+   * Permanently deletes one trashed entry, or every entry the caller can see
+   */
+  public static async purge(id?: string): Promise<number> {
+    if (!id) {
+      return TrashService.purge((await this.listTrash()).items.map(item => item.id));
+    }
+
+    const { item } = await TrashService.get(id);
+    if (!(await this.isVisible(item))) {
+      throw createError('Trash item not found', 404, 'TRASH_ITEM_NOT_FOUND');
+    }
+
+    return TrashService.purge([id]);
+  }
+}
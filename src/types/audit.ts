@@ -0,0 +1,54 @@
+/**
+ * What a request has done so far, collected while it runs and written to the
+ * audit log when it ends
+ */
+export interface AuditDetails {
+  // Real paths that passed the path guard, or the requested path of a rejected one
+  paths: string[];
+  // Result sizes reported by the handler, e.g. `items` or `bytes`
+  counts: Record<string, number>;
+  error: { message: string; code?: string } | null;
+}
+
+export type AuditOutcome = 'success' | 'failure' | 'aborted';
+
+/**
+ * One line of the audit log
+ */
+export interface AuditEntry {
+  timestamp: string;
+  // Principal id (`key:<id>` or `jwt:<sub>`), or `anonymous` without authentication
+  actor: string;
+  ip: string | undefined;
+  method: string;
+  // Method and route, e.g. `GET /list`
+  operation: string;
+  paths: string[];
+  status: number;
+  outcome: AuditOutcome;
+  error?: string;
+  code?: string;
+  counts: Record<string, number>;
+  durationMs: number;
+}
+
+export interface AuditQuery {
+  pathPrefix?: string;
+  actor?: string;
+  operation?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+export interface AuditQueryResponse {
+  entries: AuditEntry[];
+  metadata: {
+    returned: number;
+    // True when more entries matched than were returned
+    truncated: boolean;
+    filesScanned: number;
+    durationMs: number;
+    queriedAt: string;
+  };
+}
@@ -0,0 +1,38 @@
+import { AuditDetails } from './audit';
+
+/**
+ * What a role may do: browse and search (`list`), read file contents
+ * (`read`), modify the filesystem (`write`), or query the audit log (`audit`)
+ */
+export type AuthOperation = 'list' | 'read' | 'write' | 'audit';
+
+export interface AuthRole {
+  // Directories the role may access; all of ALLOWED_ROOTS when omitted
+  roots?: string[];
+  operations: AuthOperation[];
+}
+
+export interface ApiKeyConfig {
+  id: string;
+  // Hex SHA-256 of the key, so the configuration holds no usable secrets
+  keySha256: string;
+  roles: string[];
+}
+
+export interface AuthConfig {
+  roles: Record<string, AuthRole>;
+  apiKeys: ApiKeyConfig[];
+}
+
+export interface Principal {
+  id: string;
+  type: 'apiKey' | 'jwt';
+  roles: string[];
+}
+
+export interface RequestContext {
+  principal: Principal | null;
+  // Roots (configured and real form) the current operation is confined to, on top of ALLOWED_ROOTS
+  roots: string[] | null;
+  audit: AuditDetails;
+}
@@ -1,9 +1,11 @@
+import { Dirent } from 'fs';
+
 export interface FileInfo {
   name: string;
   path: string;
   size: number;
   extension: string;
-  type: 'file' | 'directory';
+  type: 'file' | 'directory' | 'symlink';
   createdDate: string;
   modifiedDate: string;
   permissions: {
@@ -12,11 +14,20 @@ export interface FileInfo {
     executable: boolean;
     owner: string;
     group: string;
+    uid: number | null;
+    gid: number | null;
     mode: string;
+    symbolicMode: string;
   };
   isHidden: boolean;
+  // Only present for symbolic links
+  linkTarget?: string;
+  targetType?: SymlinkTargetType;
+  isBrokenLink?: boolean;
 }
 
+export type SymlinkTargetType = 'file' | 'directory' | 'other';
+
 export interface DirectoryListingResponse {
   path: string;
   items: FileInfo[];
@@ -27,6 +38,9 @@ export interface DirectoryListingResponse {
     totalPages: number;
     hasNext: boolean;
     hasPrevious: boolean;
+    // Opaque tokens for paging through a stable snapshot, null when there is no such page
+    nextCursor: string | null;
+    prevCursor: string | null;
   };
   metadata: {
     totalFiles: number;
@@ -36,6 +50,78 @@ export interface DirectoryListingResponse {
   };
 }
 
+/**
+ * One line of an NDJSON directory stream: an entry as soon as it has been
+ * stat'ed, then a single trailing summary (or an error if the scan failed)
+ */
+export type DirectoryStreamRecord =
+  | { type: 'entry'; entry: FileInfo }
+  | { type: 'summary'; path: string; total: number; metadata: DirectoryListingResponse['metadata'] }
+  | { type: 'error'; message: string };
+
+/**
+ * A change in a watched directory, sent as one Server-Sent Event. Deleted
+ * entries carry their last known info, or null if the watcher never saw it.
+ */
+export type DirectoryWatchEvent =
+  | { type: 'add' | 'change'; path: string; name: string; entry: FileInfo }
+  | { type: 'delete'; path: string; name: string; entry: FileInfo | null }
+  | { type: 'error'; path: string; message: string };
+
+export type ListingSortKey = 'name' | 'size' | 'modified' | 'created' | 'type' | 'extension' | 'owner';
+
+/**
+ * Ordering of a directory listing. Keys are compared in turn, each with the
+ * order at the same position (or the first order if there is none).
+ */
+export interface ListingSort {
+  keys: ListingSortKey[];
+  orders: Array<'asc' | 'desc'>;
+  // Compare digit runs by value, so `file2` comes before `file10`
+  natural: boolean;
+  caseSensitive: boolean;
+  directoriesFirst: boolean;
+}
+
+/**
+ * Filters applied to a directory listing before it is paginated. Sizes are
+ * in bytes; directories and symbolic links have a size of 0.
+ */
+export interface ListingFilters {
+  extensions: string[];
+  // Case-insensitive substring of the entry name
+  name?: string;
+  // Glob matched against the entry name
+  pattern?: string;
+  type?: 'file' | 'directory';
+  minSize?: number;
+  maxSize?: number;
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+}
+
+/**
+ * One entry of a sorted listing. For listings sorted by name or type, `info`
+ * is only built once the entry lands on a requested page.
+ */
+export interface ListingEntry {
+  name: string;
+  path: string;
+  type: FileInfo['type'];
+  size: number;
+  info: FileInfo | null;
+}
+
+export interface ListingSnapshot {
+  id: string;
+  path: string;
+  entries: ListingEntry[];
+  metadata: DirectoryListingResponse['metadata'];
+  expiresAt: number;
+}
+
 export interface DirectoryMetadata {
   path: string;
   exists: boolean;
@@ -50,4 +136,373 @@ export interface DirectoryMetadata {
   lastAccessed: string;
   lastModified: string;
   created: string;
-}
\ No newline at end of file
+}
+
+export interface DirectoryTreeNode extends FileInfo {
+  children?: DirectoryTreeNode[];
+  childCount: number;
+  aggregateSize: number;
+  aggregateFiles: number;
+  aggregateDirectories: number;
+  truncated: boolean;
+}
+
+export interface DirectoryTreeResponse {
+  path: string;
+  root: DirectoryTreeNode;
+  limits: {
+    maxDepth: number;
+    maxNodes: number;
+  };
+  metadata: {
+    totalNodes: number;
+    truncated: boolean;
+    scannedAt: string;
+  };
+}
+
+export interface DiskUsageOptions {
+  maxDepth: number;
+  timeoutMs: number;
+  top: number;
+  includeHidden: boolean;
+}
+
+export interface DiskUsageTotals {
+  // Sum of file sizes, as reported by `du --apparent-size`
+  apparentSize: number;
+  // Bytes allocated on disk (512-byte blocks), as reported by `du`
+  allocatedSize: number;
+  blocks: number;
+  files: number;
+  directories: number;
+  symlinks: number;
+}
+
+export interface DiskUsageDirectory extends DiskUsageTotals {
+  name: string;
+  path: string;
+}
+
+export interface DiskUsageFile {
+  name: string;
+  path: string;
+  apparentSize: number;
+  allocatedSize: number;
+  modifiedDate: string;
+}
+
+export interface DiskUsageProgress {
+  // Share of the top-level subdirectories scanned so far, an estimate
+  percent: number;
+  files: number;
+  directories: number;
+  apparentSize: number;
+  currentPath: string;
+  elapsedMs: number;
+}
+
+export interface DiskUsageResponse {
+  path: string;
+  totals: DiskUsageTotals;
+  largestDirectories: DiskUsageDirectory[];
+  largestFiles: DiskUsageFile[];
+  limits: {
+    maxDepth: number | null;
+    timeoutMs: number;
+    top: number;
+  };
+  metadata: {
+    timedOut: boolean;
+    depthLimited: boolean;
+    inaccessible: number;
+    durationMs: number;
+    scannedAt: string;
+  };
+}
+
+/**
+ * One line of an NDJSON disk usage stream: periodic progress, then the result
+ * (or an error if the scan failed)
+ */
+export type DiskUsageStreamRecord =
+  | { type: 'progress'; progress: DiskUsageProgress }
+  | { type: 'result'; usage: DiskUsageResponse }
+  | { type: 'error'; message: string };
+
+export interface DuplicateSearchOptions {
+  minSize: number;
+  extensions: string[];
+  maxDepth: number;
+  includeHidden: boolean;
+  maxGroups: number;
+  timeoutMs: number;
+}
+
+export interface DuplicateGroup {
+  // SHA-256 of the file content
+  hash: string;
+  size: number;
+  count: number;
+  // Bytes freed by keeping a single copy
+  reclaimableBytes: number;
+  paths: string[];
+}
+
+export interface DuplicateSearchProgress {
+  phase: 'scanning' | 'partial-hash' | 'full-hash';
+  filesScanned: number;
+  candidateFiles: number;
+  hashedFiles: number;
+  hashedBytes: number;
+  elapsedMs: number;
+}
+
+export interface DuplicateSearchResponse {
+  path: string;
+  groups: DuplicateGroup[];
+  metadata: {
+    filesScanned: number;
+    candidateFiles: number;
+    hashedFiles: number;
+    hashedBytes: number;
+    duplicateGroups: number;
+    duplicateFiles: number;
+    reclaimableBytes: number;
+    filesSkipped: number;
+    truncated: boolean;
+    timedOut: boolean;
+    durationMs: number;
+    searchedAt: string;
+  };
+}
+
+/**
+ * One line of an NDJSON duplicate search stream: periodic progress, then the
+ * result (or an error if the search failed)
+ */
+export type DuplicateSearchStreamRecord =
+  | { type: 'progress'; progress: DuplicateSearchProgress }
+  | { type: 'result'; duplicates: DuplicateSearchResponse }
+  | { type: 'error'; message: string };
+
+export interface WalkEntry {
+  name: string;
+  path: string;
+  relativePath: string;
+  depth: number;
+  dirent: Dirent;
+}
+
+export interface NameSearchOptions {
+  pattern?: string;
+  regex?: string;
+  caseSensitive: boolean;
+  type?: 'file' | 'directory';
+  extensions: string[];
+  minSize?: number;
+  maxSize?: number;
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  maxDepth: number;
+  maxResults: number;
+  includeHidden: boolean;
+}
+
+export interface NameSearchResponse {
+  path: string;
+  items: FileInfo[];
+  pagination: Omit<DirectoryListingResponse['pagination'], 'nextCursor' | 'prevCursor'>;
+  metadata: {
+    totalMatches: number;
+    scannedEntries: number;
+    truncated: boolean;
+    searchedAt: string;
+  };
+}
+
+export interface ContentSearchOptions {
+  query: string;
+  isRegex: boolean;
+  caseSensitive: boolean;
+  filePattern?: string;
+  maxFileSize: number;
+  maxMatches: number;
+  timeoutMs: number;
+  maxDepth: number;
+  includeHidden: boolean;
+}
+
+export interface ContentSearchMatch {
+  path: string;
+  line: number;
+  snippet: string;
+  matches: Array<{
+    start: number;
+    end: number;
+  }>;
+}
+
+export interface ContentSearchResponse {
+  path: string;
+  query: string;
+  results: ContentSearchMatch[];
+  metadata: {
+    totalMatches: number;
+    filesScanned: number;
+    filesMatched: number;
+    filesSkipped: number;
+    truncated: boolean;
+    timedOut: boolean;
+    durationMs: number;
+    searchedAt: string;
+  };
+}
+
+export interface DownloadableFile {
+  path: string;
+  name: string;
+  size: number;
+  modified: Date;
+  etag: string;
+}
+
+export type ChecksumAlgorithm = 'md5' | 'sha1' | 'sha256' | 'sha512';
+
+export interface FileChecksumResponse {
+  path: string;
+  name: string;
+  size: number;
+  checksums: Partial<Record<ChecksumAlgorithm, string>>;
+  durationMs: number;
+  computedAt: string;
+}
+
+export interface ManifestEntry {
+  // Path relative to the manifest's base directory, with forward slashes
+  path: string;
+  hash: string;
+}
+
+export interface ManifestVerificationResponse {
+  path: string;
+  algorithm: ChecksumAlgorithm;
+  matched: string[];
+  mismatched: Array<{ path: string; expected: string; actual: string }>;
+  missing: string[];
+  extra: string[];
+  unreadable: Array<{ path: string; error: string }>;
+  metadata: {
+    manifestEntries: number;
+    filesChecked: number;
+    // True when every manifest entry matched and there are no extra files
+    ok: boolean;
+    durationMs: number;
+    verifiedAt: string;
+  };
+}
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'latin1';
+
+export interface FilePreviewOptions {
+  startLine: number;
+  endLine?: number;
+  tail?: number;
+  maxBytes: number;
+}
+
+export interface FilePreviewResponse {
+  file: FileInfo;
+  encoding: TextEncoding | null;
+  hasBom: boolean;
+  binary: boolean;
+  mode: 'lines' | 'tail';
+  startLine: number | null;
+  endLine: number | null;
+  lines: string[];
+  hasMore: boolean;
+  truncated: boolean;
+}
+
+export interface ArchivePath {
+  archivePath: string;
+  innerPath: string;
+  format: 'zip' | 'tar' | 'tar.gz';
+}
+
+export interface ArchiveEntry {
+  path: string;
+  type: 'file' | 'directory';
+  size: number;
+  modified: Date;
+  mode: number;
+  owner: string;
+  group: string;
+  uid: number | null;
+  gid: number | null;
+}
+
+/**
+ * What happens when the destination of a write operation already exists:
+ * fail with 409, move the existing entry to the trash, or pick a free name
+ * such as `report (1).csv`
+ */
+export type ConflictPolicy = 'fail' | 'overwrite' | 'rename';
+
+export type WriteOperation = 'mkdir' | 'rename' | 'move' | 'copy' | 'delete' | 'restore' | 'purge' | 'upload';
+
+/**
+ * An entry that was deleted (or replaced by an overwrite) and can be restored
+ */
+export interface TrashItem {
+  id: string;
+  name: string;
+  originalPath: string;
+  type: FileInfo['type'];
+  size: number;
+  deletedAt: string;
+}
+
+export interface WriteResult {
+  operation: WriteOperation;
+  source: string | null;
+  path: string;
+  entry: FileInfo;
+  // The entry an overwrite moved to the trash
+  replaced: TrashItem | null;
+}
+
+export interface TrashListResponse {
+  items: TrashItem[];
+  metadata: {
+    totalItems: number;
+    totalSize: number;
+  };
+}
+
+export interface UploadResponse {
+  path: string;
+  files: WriteResult[];
+  metadata: {
+    totalFiles: number;
+    totalBytes: number;
+    durationMs: number;
+    uploadedAt: string;
+  };
+}
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export interface ArchiveExportOptions {
+  includeHidden: boolean;
+  maxBytes: number;
+  maxFiles: number;
+}
+
+export interface ArchiveExportSummary {
+  files: number;
+  directories: number;
+  bytes: number;
+  skipped: Array<{ path: string; reason: string }>;
+  durationMs: number;
+}
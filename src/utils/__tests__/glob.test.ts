@@ -0,0 +1,41 @@
+import { findUnsafeRegExp, globToRegExp } from '../glob';
+
+describe('findUnsafeRegExp', () => {
+  it('accepts ordinary patterns', () => {
+    expect(findUnsafeRegExp('^error: .*timeout$')).toBeNull();
+    expect(findUnsafeRegExp('(foo|bar)\\.log|\\.txt$')).toBeNull();
+    expect(findUnsafeRegExp('(foo|bar)?-(a+)?\\.log')).toBeNull();
+    expect(findUnsafeRegExp('(?:\\d{4})-(\\d{2})')).toBeNull();
+    expect(findUnsafeRegExp('[(+*)]+')).toBeNull();
+  });
+
+  it('rejects nested quantifiers', () => {
+    expect(findUnsafeRegExp('(a+)+$')).toMatch(/Nested quantifiers/);
+    expect(findUnsafeRegExp('(?:\\w*x)*')).toMatch(/Nested quantifiers/);
+    expect(findUnsafeRegExp('((a)+b){2,}')).toMatch(/Nested quantifiers/);
+    expect(findUnsafeRegExp('(?<word>a?)*')).toMatch(/Nested quantifiers/);
+  });
+
+  it('rejects repeated groups with alternatives', () => {
+    for (const pattern of ['(a|a)+$', '(a|aa)+$', '(\\w|\\d)+$', '(.|\\s)*x', '(a|a)*b', '((a|b)c){2,}']) {
+      expect(findUnsafeRegExp(pattern)).toMatch(/alternatives/);
+    }
+  });
+
+  it('rejects backreferences', () => {
+    expect(findUnsafeRegExp('(a)\\1')).toMatch(/Backreferences/);
+    expect(findUnsafeRegExp('(?<x>a)\\k<x>')).toMatch(/Backreferences/);
+  });
+
+  it('rejects overly long patterns', () => {
+    expect(findUnsafeRegExp('a'.repeat(257))).toMatch(/must not exceed/);
+  });
+});
+
+describe('globToRegExp', () => {
+  it('matches names and relative paths', () => {
+    expect(globToRegExp('*.log').test('server.log')).toBe(true);
+    expect(globToRegExp('*.log').test('logs/server.log')).toBe(false);
+    expect(globToRegExp('**/logs/*.{log,txt}').test('a/b/logs/x.txt')).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The guard reads its configuration when loaded, so the tree is built first
+const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'path-guard-')));
+const realRoot = path.join(base, 'real');
+const linkedRoot = path.join(base, 'link');
+const outside = path.join(base, 'outside');
+
+fs.mkdirSync(path.join(realRoot, 'sub'), { recursive: true });
+fs.mkdirSync(outside);
+fs.writeFileSync(path.join(realRoot, 'sub', 'notes.txt'), 'notes');
+fs.writeFileSync(path.join(realRoot, 'sub', 'keys.secret'), 'secret');
+fs.writeFileSync(path.join(outside, 'data.txt'), 'data');
+fs.symlinkSync(realRoot, linkedRoot);
+fs.symlinkSync(outside, path.join(realRoot, 'escape'));
+fs.symlinkSync(path.join(realRoot, 'sub', 'keys.secret'), path.join(realRoot, 'alias.txt'));
+
+process.env.ALLOWED_ROOTS = linkedRoot;
+process.env.DENIED_PATHS = '**/*.secret';
+
+describe('PathGuard', () => {
+  let PathGuard: typeof import('../pathGuard').PathGuard;
+
+  beforeAll(async () => {
+    ({ PathGuard } = await import('../pathGuard'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(base, { recursive: true, force: true });
+  });
+
+  it('accepts paths through a symlinked root and returns their real location', async () => {
+    await expect(PathGuard.resolve(path.join(linkedRoot, 'sub'))).resolves.toBe(path.join(realRoot, 'sub'));
+    await expect(PathGuard.resolve(linkedRoot)).resolves.toBe(realRoot);
+    await expect(PathGuard.resolve(path.join(realRoot, 'sub', 'notes.txt')))
+      .resolves.toBe(path.join(realRoot, 'sub', 'notes.txt'));
+  });
+
+  it('rejects traversal segments', async () => {
+    await expect(PathGuard.resolve(`${linkedRoot}/sub/../../outside`))
+      .rejects.toMatchObject({ statusCode: 403, code: 'PATH_TRAVERSAL' });
+  });
+
+  it('rejects paths outside the allowed roots', async () => {
+    await expect(PathGuard.resolve(path.join(outside, 'data.txt')))
+      .rejects.toMatchObject({ statusCode: 403, code: 'OUTSIDE_ALLOWED_ROOTS' });
+    await expect(PathGuard.resolve(`${linkedRoot}-other`))
+      .rejects.toMatchObject({ statusCode: 403, code: 'OUTSIDE_ALLOWED_ROOTS' });
+  });
+
+  it('rejects symlinks leading out of the roots', async () => {
+    await expect(PathGuard.resolve(path.join(linkedRoot, 'escape', 'data.txt')))
+      .rejects.toMatchObject({ statusCode: 403, code: 'SYMLINK_ESCAPE' });
+  });
+
+  it('rejects denied paths, requested or resolved', async () => {
+    await expect(PathGuard.resolve(path.join(linkedRoot, 'sub', 'keys.secret')))
+      .rejects.toMatchObject({ statusCode: 403, code: 'PATH_DENIED', message: 'Access to this path is restricted' });
+    await expect(PathGuard.resolve(path.join(linkedRoot, 'alias.txt')))
+      .rejects.toMatchObject({ statusCode: 403, code: 'PATH_DENIED', message: 'Path resolves to a restricted location' });
+  });
+
+  it('rejects invalid and missing paths', async () => {
+    await expect(PathGuard.resolve('')).rejects.toMatchObject({ statusCode: 400 });
+    await expect(PathGuard.resolve(`${linkedRoot}/a\0b`)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(PathGuard.resolve(path.join(linkedRoot, 'missing'))).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('reports the real root containing a resolved path', async () => {
+    await expect(PathGuard.getRoot(path.join(realRoot, 'sub'))).resolves.toBe(realRoot);
+    await expect(PathGuard.isAllowed(path.join(outside, 'data.txt'))).resolves.toBe(false);
+  });
+});
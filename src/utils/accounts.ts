@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { logger } from './logger';
+
+const readFile = promisify(fs.readFile);
+
+interface AccountMaps {
+  users: Map<number, string>;
+  groups: Map<number, string>;
+}
+
+/**
+ * Parses a colon-separated account database (/etc/passwd or /etc/group) into
+ * an id → name map. The id is the third field in both files; the first entry
+ * for an id wins, like getpwuid/getgrgid.
+ */
+const parseAccountFile = (content: string): Map<number, string> => {
+  const accounts = new Map<number, string>();
+
+  for (const line of content.split('\n')) {
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const [name, , id] = line.split(':');
+    const numericId = Number(id);
+    if (name && id && Number.isInteger(numericId) && !accounts.has(numericId)) {
+      accounts.set(numericId, name);
+    }
+  }
+
+  return accounts;
+};
+
+/**
+ * Resolves numeric uids and gids to user and group names.
+ *
+ * The account files are read from ACCOUNTS_ROOT (default `/`), so that a host
+ * filesystem mounted at `/host` in Docker reports the host's names rather than
+ * the container's. Parsed files are cached for ACCOUNTS_CACHE_TTL_MS.
+ */
+export class AccountNames {
+  private static readonly ACCOUNTS_ROOT = process.env.ACCOUNTS_ROOT || '/';
+  private static readonly CACHE_TTL_MS = parseInt(process.env.ACCOUNTS_CACHE_TTL_MS || '300000'); // 5 minutes
+
+  private static cache: { maps: Promise<AccountMaps>; loadedAt: number } | null = null;
+
+  /**
+   * Reads one account file, returning an empty map if it is missing
+   */
+  private static async loadFile(fileName: string): Promise<Map<number, string>> {
+    const filePath = path.join(this.ACCOUNTS_ROOT, 'etc', fileName);
+    try {
+      return parseAccountFile(await readFile(filePath, 'utf8'));
+    } catch (error) {
+      logger.warn(`Failed to read account database: ${filePath}`, { error: (error as Error).message });
+      return new Map();
+    }
+  }
+
+  /**
+   * Returns the cached account maps, reloading them once the TTL has expired
+   */
+  private static getMaps(): Promise<AccountMaps> {
+    if (!this.cache || Date.now() - this.cache.loadedAt > this.CACHE_TTL_MS) {
+      const maps = Promise.all([this.loadFile('passwd'), this.loadFile('group')])
+        .then(([users, groups]) => ({ users, groups }));
+      this.cache = { maps, loadedAt: Date.now() };
+    }
+
+    return this.cache.maps;
+  }
+
+  /**
+   * Resolves a uid to a user name, falling back to the numeric id
+   */
+  public static async getUserName(uid: number): Promise<string> {
+    const { users } = await this.getMaps();
+    return users.get(uid) ?? uid.toString();
+  }
+
+  /**
+   * Resolves a gid to a group name, falling back to the numeric id
+   */
+  public static async getGroupName(gid: number): Promise<string> {
+    const { groups } = await this.getMaps();
+    return groups.get(gid) ?? gid.toString();
+  }
+}
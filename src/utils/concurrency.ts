@@ -0,0 +1,32 @@
+/**
+ * Default number of filesystem operations a single scan keeps in flight.
+ * Configured through SCAN_CONCURRENCY.
+ */
+export const SCAN_CONCURRENCY = Math.max(1, parseInt(process.env.SCAN_CONCURRENCY || '32'));
+
+/**
+ * Maps over items with at most `concurrency` calls in flight at once,
+ * preserving the input order in the results. Unlike `Promise.all` over the
+ * whole array, this keeps the number of open file descriptors and pending
+ * libuv requests bounded on directories with hundreds of thousands of entries.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index] as T, index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, () => worker());
+  await Promise.all(workers);
+
+  return results;
+};
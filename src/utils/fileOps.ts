@@ -0,0 +1,35 @@
+import fs from 'fs';
+
+/**
+ * Returns the lstat of a path, or null if nothing exists there
+ */
+export const lstatOrNull = async (filePath: string): Promise<fs.Stats | null> => {
+  try {
+    return await fs.promises.lstat(filePath);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Moves a file or directory, falling back to copy and delete when source and
+ * destination are on different filesystems. Symbolic links are moved as links.
+ */
+export const moveEntry = async (source: string, destination: string): Promise<void> => {
+  try {
+    await fs.promises.rename(source, destination);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+
+    await fs.promises.cp(source, destination, {
+      recursive: true,
+      errorOnExist: true,
+      force: false,
+      preserveTimestamps: true,
+      verbatimSymlinks: true,
+    });
+    await fs.promises.rm(source, { recursive: true, force: true });
+  }
+};
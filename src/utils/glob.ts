@@ -0,0 +1,182 @@
+/**
+ * Escapes a string so it can be embedded literally in a regular expression
+ */
+export const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Normalizes a comma-separated extension list to lowercase, dot-prefixed values
+ */
+export const parseExtensions = (value?: string): string[] => {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(',')
+    .map(ext => ext.trim().toLowerCase())
+    .filter(ext => ext.length > 0)
+    .map(ext => (ext.startsWith('.') ? ext : `.${ext}`));
+};
+
+/**
+ * Converts a glob pattern into a regular expression.
+ *
+ * Supported syntax: `*` (anything but a separator), `**` (any number of path
+ * segments), `?` (a single character), `[abc]` / `[!abc]` character classes
+ * and `{a,b}` alternation. Paths are matched with forward slashes.
+ */
+export const globToRegExp = (pattern: string, caseSensitive: boolean = false): RegExp => {
+  let source = '';
+  let inGroup = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern.charAt(i);
+
+    switch (char) {
+      case '*':
+        if (pattern.charAt(i + 1) === '*') {
+          // `**/` matches zero or more directories, a trailing `**` matches everything
+          if (pattern.charAt(i + 2) === '/') {
+            source += '(?:.*/)?';
+            i += 2;
+          } else {
+            source += '.*';
+            i += 1;
+          }
+        } else {
+          source += '[^/]*';
+        }
+        break;
+      case '?':
+        source += '[^/]';
+        break;
+      case '[': {
+        const end = pattern.indexOf(']', i + 1);
+        if (end === -1) {
+          source += '\\[';
+          break;
+        }
+        let content = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+        if (content.startsWith('!')) {
+          content = '^' + content.slice(1);
+        }
+        source += `[${content}]`;
+        i = end;
+        break;
+      }
+      case '{':
+        inGroup++;
+        source += '(?:';
+        break;
+      case '}':
+        if (inGroup > 0) {
+          inGroup--;
+          source += ')';
+        } else {
+          source += '\\}';
+        }
+        break;
+      case ',':
+        source += inGroup > 0 ? '|' : ',';
+        break;
+      case '\\':
+        // Escaped metacharacter, matched literally
+        source += escapeRegExp(pattern.charAt(i + 1) || '\\');
+        i += 1;
+        break;
+      default:
+        source += escapeRegExp(char);
+    }
+  }
+
+  // Close any unbalanced alternation groups
+  source += ')'.repeat(inGroup);
+
+  return new RegExp(`^${source}$`, caseSensitive ? '' : 'i');
+};
+
+const MAX_USER_REGEX_LENGTH = 256;
+
+/**
+ * Finds the reason a user-supplied regular expression could backtrack
+ * catastrophically, or returns null when it is safe to run.
+ *
+ * Rejected are patterns longer than MAX_USER_REGEX_LENGTH, backreferences and
+ * repeated groups whose body is itself quantified (`(a+)+`, `(?:\w*x)*`) or
+ * contains an alternation (`(a|aa)+`, `(.|\s)*`), whose branches can overlap.
+ * Both take exponential time on near-matches.
+ */
+export const findUnsafeRegExp = (source: string): string | null => {
+  if (source.length > MAX_USER_REGEX_LENGTH) {
+    return `Regular expression must not exceed ${MAX_USER_REGEX_LENGTH} characters`;
+  }
+
+  // One frame per open group, recording whether its body contains a quantifier or an alternation
+  const groups: Array<{ quantified: boolean; alternated: boolean }> = [];
+  let quantified = false;
+  let alternated = false;
+
+  // Length of the quantifier at an index (0 if there is none) and whether it can match more than once
+  const quantifierAt = (index: number): { length: number; repeats: boolean } => {
+    const char = source.charAt(index);
+    if (char === '*' || char === '+' || char === '?') {
+      return { length: 1, repeats: char !== '?' };
+    }
+    const bounded = char === '{' ? /^\{(\d+)(,(\d*))?\}/.exec(source.slice(index)) : null;
+    if (!bounded) {
+      return { length: 0, repeats: false };
+    }
+    const max = bounded[2] ? bounded[3] : bounded[1];
+    return { length: bounded[0].length, repeats: max === '' || parseInt(max ?? '0') > 1 };
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source.charAt(i);
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(source.charAt(i + 1))) {
+        return 'Backreferences are not supported';
+      }
+      i++;
+    } else if (char === '[') {
+      // Character classes cannot nest quantifiers; skip to the closing bracket
+      for (i++; i < source.length && source.charAt(i) !== ']'; i++) {
+        if (source.charAt(i) === '\\') {
+          i++;
+        }
+      }
+    } else if (char === '(') {
+      groups.push({ quantified, alternated });
+      quantified = false;
+      alternated = false;
+      // Skip the `?:`, `?=`, `?!`, `?<=`, `?<!` and `?<name>` group prefixes
+      if (source.charAt(i + 1) === '?') {
+        const prefix = /^\?(?:[:=!]|<[=!]|<[^>]*>)/.exec(source.slice(i + 1));
+        i += prefix ? prefix[0].length : 1;
+      }
+    } else if (char === ')') {
+      const { length, repeats } = quantifierAt(i + 1);
+      if (repeats && quantified) {
+        return 'Nested quantifiers are not supported';
+      }
+      if (repeats && alternated) {
+        return 'Repeated groups with alternatives are not supported';
+      }
+      const outer = groups.pop();
+      quantified = (outer?.quantified ?? false) || quantified || length > 0;
+      alternated = (outer?.alternated ?? false) || alternated;
+      i += length;
+    } else if (char === '|') {
+      // Only checked when a group closes, so top-level alternatives are accepted
+      alternated = true;
+    } else {
+      const { length } = quantifierAt(i);
+      if (length > 0) {
+        quantified = true;
+        i += length - 1;
+      }
+    }
+  }
+
+  return null;
+};
@@ -29,9 +29,9 @@ const logger = winston.createLogger({
   ],
 });
 
-// If we're not in production then log to the console with the format:
+// If we're not in production (or under test) then log to the console with the format:
 // `${info.level}: ${info.message} JSON.stringify({ ...rest })`
-if (process.env.NODE_ENV !== 'production') {
+if (process.env.NODE_ENV !== 'production' && process.env.NODE_ENV !== 'test') {
   logger.add(new winston.transports.Console({
     format: winston.format.combine(
       winston.format.colorize(),
@@ -40,4 +40,10 @@ if (process.env.NODE_ENV !== 'production') {
   }));
 }
 
-export { logger };
\ No newline at end of file
+/**
+ * Hides credentials passed in the query string (`access_token`) before a URL
+ * is logged
+ */
+const redactUrl = (url: string): string => url.replace(/([?&]access_token=)[^&]*/gi, '$1[redacted]');
+
+export { logger, redactUrl };
\ No newline at end of file
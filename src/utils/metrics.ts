@@ -0,0 +1,56 @@
+import { Counter, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+/**
+ * Prometheus metrics of the service, served by GET /metrics. Process stats
+ * (CPU, memory, event loop lag, handles) are collected by prom-client.
+ */
+const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+// Routes are labelled with their path pattern (e.g. `/trash/:id`) so ids don't add series
+const httpRequestsTotal = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests by method, route and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  registers: [registry],
+});
+
+const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by method, route and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry],
+});
+
+const directoryScanDuration = new Histogram({
+  name: 'directory_scan_duration_seconds',
+  help: 'Time spent reading directories, by kind of scan (list, stream, tree)',
+  labelNames: ['scan'] as const,
+  buckets: [0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1, 5, 10, 30],
+  registers: [registry],
+});
+
+const directoryScanEntries = new Histogram({
+  name: 'directory_scan_entries',
+  help: 'Entries returned by a directory scan, by kind of scan (list, stream, tree)',
+  labelNames: ['scan'] as const,
+  buckets: [0, 10, 100, 1000, 10000, 100000, 1000000],
+  registers: [registry],
+});
+
+const rateLimitRejections = new Counter({
+  name: 'rate_limit_rejections_total',
+  help: 'Requests rejected by the rate limiter',
+  registers: [registry],
+});
+
+/**
+ * Records the duration and size of a directory scan
+ */
+const observeScan = (scan: 'list' | 'stream' | 'tree', startedAt: number, entries: number): void => {
+  directoryScanDuration.observe({ scan }, (Date.now() - startedAt) / 1000);
+  directoryScanEntries.observe({ scan }, entries);
+};
+
+export { registry, httpRequestsTotal, httpRequestDuration, rateLimitRejections, observeScan };
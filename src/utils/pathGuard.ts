@@ -0,0 +1,182 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { createError } from '../middleware/errorHandler';
+import { globToRegExp } from './glob';
+import { logger } from './logger';
+import { getRequestContext } from './requestContext';
+
+const realpath = promisify(fs.realpath);
+const access = promisify(fs.access);
+
+const DEFAULT_DENIED_PATTERNS = [
+  '**/etc/shadow',
+  '**/etc/shadow-',
+  '**/etc/gshadow',
+  '**/etc/passwd',
+  '**/etc/passwd-',
+  '**/Windows/System32/config{,/**}',
+  '**/Windows/System32/drivers/etc{,/**}',
+];
+
+/**
+ * Splits a comma-separated environment variable into trimmed values
+ */
+const parseList = (value: string | undefined): string[] =>
+  (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+
+/**
+ * Confines every filesystem access to a set of allowed roots.
+ *
+ * Paths are resolved with realpath, so symlinks cannot be used to escape a
+ * root, and both the requested and the resolved path are checked against the
+ * denylist. Configured through ALLOWED_ROOTS (comma-separated directories; when
+ * empty the whole filesystem is allowed) and DENIED_PATHS (comma-separated
+ * globs, replacing the built-in list of sensitive system files). Authenticated
+ * requests are further confined to the roots of the caller's roles.
+ */
+export class PathGuard {
+  public static readonly MAX_PATH_LENGTH = 4096;
+
+  private static readonly configuredRoots = parseList(process.env.ALLOWED_ROOTS).map(root => path.resolve(root));
+  private static readonly deniedPatterns = (process.env.DENIED_PATHS !== undefined
+    ? parseList(process.env.DENIED_PATHS)
+    : DEFAULT_DENIED_PATTERNS
+  ).map(pattern => globToRegExp(pattern.replace(/\\/g, '/')));
+
+  private static allowedRoots: Promise<string[]> | null = null;
+
+  /**
+   * Resolves the configured roots through realpath once, so roots that are
+   * themselves symlinks (e.g. a Docker mount) compare correctly
+   */
+  private static getAllowedRoots(): Promise<string[]> {
+    if (!this.allowedRoots) {
+      if (this.configuredRoots.length === 0) {
+        logger.warn('ALLOWED_ROOTS is not set, the whole filesystem is accessible');
+      }
+
+      this.allowedRoots = Promise.all(this.configuredRoots.map(async (root) => {
+        try {
+          return await realpath(root);
+        } catch {
+          logger.warn(`Allowed root does not exist: ${root}`);
+          return root;
+        }
+      }));
+    }
+
+    return this.allowedRoots;
+  }
+
+  /**
+   * Checks whether a path lies inside (or is) the given root
+   */
+  private static isWithin(root: string, filePath: string): boolean {
+    const relative = path.relative(root, filePath);
+    return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+  }
+
+  /**
+   * Checks whether an absolute path is inside one of the allowed roots and,
+   * for authenticated requests, inside the roots of the caller's roles.
+   *
+   * Roots are matched in both their configured and their real form: a
+   * requested path names a symlinked root (e.g. a Docker mount) by its
+   * configured form, while no real path can lie inside a symlink, so the
+   * configured form never widens the check of a resolved path.
+   */
+  private static async isInsideAllowedRoots(filePath: string): Promise<boolean> {
+    const roots = [...this.configuredRoots, ...await this.getAllowedRoots()];
+    const scopedRoots = getRequestContext()?.roots;
+
+    return (roots.length === 0 || roots.some(root => this.isWithin(root, filePath))) &&
+      (!scopedRoots || scopedRoots.some(root => this.isWithin(root, filePath)));
+  }
+
+  /**
+   * Whether ALLOWED_ROOTS confines access at all
+   */
+  public static hasConfiguredRoots(): boolean {
+    return this.configuredRoots.length > 0;
+  }
+
+  /**
+   * Returns the allowed root containing a resolved path (the innermost one
+   * when roots are nested), or null when no roots are configured
+   */
+  public static async getRoot(resolvedPath: string): Promise<string | null> {
+    const roots = (await this.getAllowedRoots()).filter(root => this.isWithin(root, resolvedPath));
+    return roots.sort((a, b) => b.length - a.length)[0] ?? null;
+  }
+
+  /**
+   * Checks an absolute path against the denylist globs
+   */
+  public static isDenied(filePath: string): boolean {
+    const normalizedPath = filePath.split(path.sep).join('/');
+    return this.deniedPatterns.some(pattern => pattern.test(normalizedPath));
+  }
+
+  /**
+   * Checks whether an already resolved (real) path may be accessed
+   */
+  public static async isAllowed(resolvedPath: string): Promise<boolean> {
+    return (await this.isInsideAllowedRoots(resolvedPath)) && !this.isDenied(resolvedPath);
+  }
+
+  /**
+   * Validates a requested path and returns its real, absolute location.
+   * Rejections use distinct messages and error codes so clients can tell
+   * traversal attempts, paths outside the roots, symlink escapes and denied
+   * paths apart.
+   */
+  public static async resolve(requestedPath: string): Promise<string> {
+    if (!requestedPath || requestedPath.length > this.MAX_PATH_LENGTH) {
+      throw createError('Invalid path length', 400);
+    }
+
+    if (requestedPath.includes('\0')) {
+      throw createError('Invalid path', 400);
+    }
+
+    if (requestedPath.split(/[\\/]/).includes('..')) {
+      throw createError('Path traversal not allowed', 403, 'PATH_TRAVERSAL');
+    }
+
+    const absolutePath = path.resolve(requestedPath);
+    if (!(await this.isInsideAllowedRoots(absolutePath))) {
+      throw createError('Path is outside the allowed roots', 403, 'OUTSIDE_ALLOWED_ROOTS');
+    }
+
+    if (this.isDenied(absolutePath)) {
+      throw createError('Access to this path is restricted', 403, 'PATH_DENIED');
+    }
+
+    let resolvedPath: string;
+    try {
+      resolvedPath = await realpath(absolutePath);
+    } catch {
+      throw createError('Path does not exist or is not readable', 404);
+    }
+
+    if (!(await this.isInsideAllowedRoots(resolvedPath))) {
+      throw createError('Path resolves through a symlink to a location outside the allowed roots', 403, 'SYMLINK_ESCAPE');
+    }
+
+    if (this.isDenied(resolvedPath)) {
+      throw createError('Path resolves to a restricted location', 403, 'PATH_DENIED');
+    }
+
+    try {
+      await access(resolvedPath, fs.constants.R_OK);
+    } catch {
+      throw createError('Path does not exist or is not readable', 404);
+    }
+
+    return resolvedPath;
+  }
+}
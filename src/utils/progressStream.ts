@@ -0,0 +1,56 @@
+import { Response } from 'express';
+
+/**
+ * Resolves once the response can take more data or the client has gone away
+ */
+export const waitForDrain = (res: Response): Promise<void> => new Promise((resolve) => {
+  const done = (): void => {
+    res.off('drain', done);
+    res.off('close', done);
+    resolve();
+  };
+  res.on('drain', done);
+  res.on('close', done);
+});
+
+/**
+ * Streams a long-running operation as newline-delimited JSON: the records it
+ * emits while it runs (e.g. progress), then the record it resolves with.
+ *
+ * Headers go out with the first record, so errors thrown before that still
+ * reach the error handler as regular error responses; later errors end the
+ * stream with an `{ "type": "error", "message": ... }` record.
+ */
+export const sendProgressStream = async <T extends { type: string }>(
+  res: Response,
+  run: (emit: (record: T) => void) => Promise<T>
+): Promise<void> => {
+  let started = false;
+
+  const write = (record: T | { type: 'error'; message: string }): void => {
+    if (!started) {
+      started = true;
+      res.status(200);
+      res.type('application/x-ndjson');
+      // Keep the compression middleware and proxies from buffering the stream
+      res.setHeader('Cache-Control', 'no-transform');
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.flushHeaders();
+    }
+
+    if (!res.writableEnded) {
+      res.write(`${JSON.stringify(record)}\n`);
+    }
+  };
+
+  try {
+    write(await run(write));
+  } catch (error) {
+    if (!started) {
+      throw error;
+    }
+    write({ type: 'error', message: (error as Error).message });
+  }
+
+  res.end();
+};
@@ -0,0 +1,38 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { RequestContext } from '../types/auth';
+
+// Selections can name many paths; the audit record keeps the first ones
+const MAX_AUDITED_PATHS = 100;
+
+/**
+ * Carries the authenticated principal, the roots it may access and what the
+ * request has touched through everything a request does, so path checks and
+ * auditing deep inside the services work without every call passing them along
+ */
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Returns the context of the request being handled, if any
+ */
+export const getRequestContext = (): RequestContext | undefined => requestContext.getStore();
+
+/**
+ * Records a path the request has been allowed to access
+ */
+export const recordAccessedPath = (accessedPath: string): void => {
+  const paths = getRequestContext()?.audit.paths;
+  if (paths && paths.length < MAX_AUDITED_PATHS && !paths.includes(accessedPath)) {
+    paths.push(accessedPath);
+  }
+};
+
+/**
+ * Adds result sizes (entries listed, bytes sent, ...) to the request's audit
+ * record
+ */
+export const recordAuditCounts = (counts: Record<string, number>): void => {
+  const audit = getRequestContext()?.audit;
+  if (audit) {
+    Object.assign(audit.counts, counts);
+  }
+};